@@ -0,0 +1,45 @@
+import { env } from "~/env/server";
+
+import { createMemoryCacheProvider } from "./memory.server";
+import { type CacheProvider, type CacheProviderKind } from "./types";
+import {
+  createUpstashCacheProvider,
+  isUpstashConfigured,
+} from "./upstash.server";
+
+const createNoCacheProvider = (): CacheProvider => {
+  return {
+    kind: "none",
+    get: () => Promise.resolve(null),
+    set: () => Promise.resolve(),
+    delete: () => Promise.resolve(),
+  };
+};
+
+/**
+ * `CACHE_PROVIDER` wins. Otherwise Upstash is used where configured, except in
+ * development, which shouldn't write into a shared cache by accident.
+ */
+const determineCacheProviderKind = (): CacheProviderKind => {
+  if (env.CACHE_PROVIDER) {
+    return env.CACHE_PROVIDER;
+  }
+
+  return env.NODE_ENV !== "development" && isUpstashConfigured()
+    ? "upstash"
+    : "memory";
+};
+
+export const createCacheProvider = (
+  kind: CacheProviderKind = determineCacheProviderKind()
+): CacheProvider => {
+  if (kind === "upstash") {
+    return createUpstashCacheProvider();
+  }
+
+  if (kind === "memory") {
+    return createMemoryCacheProvider(env.CACHE_MEMORY_MAX_ENTRIES);
+  }
+
+  return createNoCacheProvider();
+};
@@ -0,0 +1,60 @@
+import { type CachedSeries, type CacheProvider } from "./types";
+
+type Entry = {
+  value: CachedSeries;
+  expiresAt: number;
+};
+
+/**
+ * Keeps up to `maxEntries` values in this process, evicting the least recently
+ * used one first. Nothing is shared between instances.
+ */
+export const createMemoryCacheProvider = (
+  maxEntries: number
+): CacheProvider => {
+  // a Map iterates in insertion order, so re-inserting on every read keeps the
+  // least recently used entry first
+  const entries = new Map<string, Entry>();
+
+  const get = (key: string): CachedSeries | null => {
+    const entry = entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    entries.delete(key);
+
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    entries.set(key, entry);
+
+    return entry.value;
+  };
+
+  const set = (key: string, value: CachedSeries, ttlInSeconds: number) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlInSeconds * 1000 });
+
+    const [oldest] = entries.keys();
+
+    if (entries.size > maxEntries && oldest !== undefined) {
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    kind: "memory",
+    get: (key) => Promise.resolve(get(key)),
+    set: (key, value, ttlInSeconds) => {
+      set(key, value, ttlInSeconds);
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      entries.delete(key);
+      return Promise.resolve();
+    },
+  };
+};
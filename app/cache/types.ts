@@ -0,0 +1,31 @@
+import { type Dataset } from "~/seasons";
+
+export const cacheProviderKinds = ["upstash", "memory", "none"] as const;
+
+export type CacheProviderKind = typeof cacheProviderKinds[number];
+
+/**
+ * A series is kept beyond `freshUntil` (unix timestamp in milliseconds) so it
+ * can be served while being refreshed.
+ */
+export type CachedSeries = {
+  datasets: Dataset[];
+  freshUntil: number;
+};
+
+/**
+ * Caches loaded series by key.
+ */
+export type CacheProvider = {
+  kind: CacheProviderKind;
+  /**
+   * Null if the key is unknown or expired.
+   */
+  get: (key: string) => Promise<CachedSeries | null>;
+  set: (
+    key: string,
+    value: CachedSeries,
+    ttlInSeconds: number
+  ) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+};
@@ -0,0 +1,45 @@
+import { Redis } from "@upstash/redis";
+
+import { env } from "~/env/server";
+import { type Dataset } from "~/seasons";
+
+import { type CachedSeries, type CacheProvider } from "./types";
+
+export const isUpstashConfigured = (): boolean => {
+  return Boolean(env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN);
+};
+
+export const createUpstashClient = (): Redis => {
+  if (!env.UPSTASH_REDIS_REST_URL || !env.UPSTASH_REDIS_REST_TOKEN) {
+    throw new Error(
+      "UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required to use Upstash."
+    );
+  }
+
+  return new Redis({
+    url: env.UPSTASH_REDIS_REST_URL,
+    token: env.UPSTASH_REDIS_REST_TOKEN,
+  });
+};
+
+export const createUpstashCacheProvider = (): CacheProvider => {
+  const upstash = createUpstashClient();
+
+  return {
+    kind: "upstash",
+    get: async (key) => {
+      const cached = await upstash.get<CachedSeries | Dataset[]>(key);
+
+      // written before series expired into a stale state, refreshed on read
+      return Array.isArray(cached)
+        ? { datasets: cached, freshUntil: 0 }
+        : cached;
+    },
+    set: async (key, value, ttlInSeconds) => {
+      await upstash.set(key, value, { ex: ttlInSeconds });
+    },
+    delete: async (key) => {
+      await upstash.del(key);
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { type AuditLog } from "@prisma/client";
+import { type SerializeFrom } from "@remix-run/node";
+
+type AuditLogTableProps = {
+  logs: SerializeFrom<AuditLog>[];
+  showSeason?: boolean;
+};
+
+const formatValue = (value: SerializeFrom<AuditLog>["before"]) => {
+  return value === null ? "-" : JSON.stringify(value);
+};
+
+export function AuditLogTable({
+  logs,
+  showSeason = false,
+}: AuditLogTableProps): JSX.Element {
+  if (logs.length === 0) {
+    return <p className="italic">No edits yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr>
+            <th className="p-1">Time (UTC)</th>
+            <th className="p-1">Admin</th>
+            {showSeason ? <th className="p-1">Season</th> : null}
+            <th className="p-1">Action</th>
+            <th className="p-1">Before</th>
+            <th className="p-1">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {logs.map((log) => (
+            <tr key={log.id} className="border-t border-gray-700 align-top">
+              <td className="whitespace-nowrap p-1">
+                {new Date(log.createdAt * 1000).toISOString()}
+              </td>
+              <td className="p-1">{log.actor}</td>
+              {showSeason ? <td className="p-1">{log.season}</td> : null}
+              <td className="p-1">{log.action}</td>
+              <td className="break-all p-1 font-mono">
+                {formatValue(log.before)}
+              </td>
+              <td className="break-all p-1 font-mono">
+                {formatValue(log.after)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
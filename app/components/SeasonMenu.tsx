@@ -1,8 +1,10 @@
 import { type Node } from "@react-types/shared";
+import { type SerializeFrom } from "@remix-run/node";
 import {
   NavLink,
   useNavigation,
   useParams,
+  useRouteLoaderData,
   useSearchParams,
 } from "@remix-run/react";
 import clsx from "clsx";
@@ -28,14 +30,17 @@ import {
   useTreeState,
 } from "react-stately";
 
-import { type Season } from "~/seasons";
-import { seasons } from "~/seasons";
+import { type loader as rootLoader } from "~/root";
+import { type SeasonMenuEntry } from "~/seasons";
 
 export function SeasonMenu(): JSX.Element {
   const now = Date.now();
   const navigation = useNavigation();
   const [params] = useSearchParams();
   const { season: selectedSeasonSlug } = useParams();
+  const seasons =
+    (useRouteLoaderData("root") as SerializeFrom<typeof rootLoader> | undefined)
+      ?.seasons ?? [];
 
   const paramsAsString = params ? `?${params.toString()}` : "";
 
@@ -54,25 +59,28 @@ export function SeasonMenu(): JSX.Element {
       }
     >
       {seasons
-        .reduce<{ label: string; seasons: Season[] }[]>((acc, season) => {
-          const lastSection = acc[acc.length - 1];
-          const [prefix] = season.slug.split("-");
+        .reduce<{ label: string; seasons: SeasonMenuEntry[] }[]>(
+          (acc, season) => {
+            const lastSection = acc[acc.length - 1];
+            const [prefix] = season.slug.split("-");
 
-          if (lastSection) {
-            const lastSeasonOfLastSection =
-              lastSection.seasons[lastSection.seasons.length - 1];
-            const [otherPrefix] = lastSeasonOfLastSection.slug.split("-");
+            if (lastSection) {
+              const lastSeasonOfLastSection =
+                lastSection.seasons[lastSection.seasons.length - 1];
+              const [otherPrefix] = lastSeasonOfLastSection.slug.split("-");
 
-            if (prefix === otherPrefix) {
-              lastSection.seasons.push(season);
-              return acc;
+              if (prefix === otherPrefix) {
+                lastSection.seasons.push(season);
+                return acc;
+              }
             }
-          }
 
-          acc.push({ label: prefix, seasons: [season] });
+            acc.push({ label: prefix, seasons: [season] });
 
-          return acc;
-        }, [])
+            return acc;
+          },
+          []
+        )
         .map((section, sectionIndex, sections) => {
           const isLastSection = sectionIndex === sections.length - 1;
 
@@ -284,7 +292,7 @@ function MenuSection<T>({ section, state }: MenuSectionProps<T>) {
   );
 }
 
-function SeasonNavItemBody({ season }: { season: Season }) {
+function SeasonNavItemBody({ season }: { season: SeasonMenuEntry }) {
   return (
     <>
       <img
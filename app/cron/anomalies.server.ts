@@ -0,0 +1,127 @@
+import { type Prisma, type Regions } from "@prisma/client";
+
+import { crossFactionHistoryFilter } from "~/models/history.server";
+import { prisma } from "~/prisma.server";
+import { titlePercentile } from "~/seasons";
+
+type Datapoint = Prisma.HistoryCreateManyInput;
+
+type ReferenceDatapoint = Pick<
+  Datapoint,
+  "timestamp" | "score" | "rank" | "percentile" | "role"
+>;
+
+const lookbackInSeconds = 24 * 60 * 60;
+
+/**
+ * Cutoffs barely ever decrease; a small dip happens when characters get
+ * deleted or transferred, anything beyond that is a misparse.
+ */
+const maxRelativeScoreDrop = 0.02;
+/**
+ * Even in the first week, the title cutoff grows by less than 1.5% an hour.
+ * Twice that leaves headroom for the steep hours after a weekly reset while
+ * still catching misparses, which are off by far more.
+ */
+const maxRelativeScoreGainPerHour = 0.03;
+/**
+ * The ranked population only shrinks marginally, and grows by at most half
+ * within an hour outside of the very first hours of a season.
+ */
+const maxRelativeRankDrop = 0.1;
+const maxRelativeRankGainPerHour = 0.5;
+
+const isSameSeries = (a: ReferenceDatapoint, b: ReferenceDatapoint) => {
+  return (
+    (a.percentile ?? titlePercentile) === (b.percentile ?? titlePercentile) &&
+    (a.role ?? "all") === (b.role ?? "all")
+  );
+};
+
+/**
+ * Returns why `next` is implausible given the latest accepted datapoint of the
+ * same series, or null if it looks fine.
+ */
+export const detectAnomaly = (
+  previous: ReferenceDatapoint,
+  next: ReferenceDatapoint
+): string | null => {
+  const hoursPassed = Math.max((next.timestamp - previous.timestamp) / 3600, 1);
+
+  if (next.score < previous.score * (1 - maxRelativeScoreDrop)) {
+    return `score dropped from ${previous.score} to ${next.score}`;
+  }
+
+  if (
+    next.score >
+    previous.score * (1 + maxRelativeScoreGainPerHour * hoursPassed)
+  ) {
+    return `score jumped from ${previous.score} to ${
+      next.score
+    } within ${hoursPassed.toFixed(1)}h`;
+  }
+
+  if (next.rank < previous.rank * (1 - maxRelativeRankDrop)) {
+    return `rank dropped from ${previous.rank} to ${next.rank}`;
+  }
+
+  if (
+    next.rank >
+    previous.rank * (1 + maxRelativeRankGainPerHour * hoursPassed)
+  ) {
+    return `rank jumped from ${previous.rank} to ${
+      next.rank
+    } within ${hoursPassed.toFixed(1)}h`;
+  }
+
+  return null;
+};
+
+/**
+ * Compares every new datapoint against the most recent accepted one of its
+ * series and marks implausible ones as quarantined. Series without recent
+ * history are accepted as is.
+ */
+export const quarantineAnomalies = async (
+  region: Regions,
+  datapoints: Datapoint[]
+): Promise<Datapoint[]> => {
+  const earliest = Math.min(...datapoints.map((dataset) => dataset.timestamp));
+
+  const recent = await prisma.history.findMany({
+    where: {
+      ...crossFactionHistoryFilter,
+      region,
+      quarantined: false,
+      timestamp: {
+        gte: earliest - lookbackInSeconds,
+        lt: earliest,
+      },
+    },
+    select: {
+      timestamp: true,
+      score: true,
+      rank: true,
+      percentile: true,
+      role: true,
+    },
+    orderBy: {
+      timestamp: "desc",
+    },
+  });
+
+  return datapoints.map((datapoint) => {
+    const previous = recent.find((dataset) => isSameSeries(dataset, datapoint));
+    const reason = previous ? detectAnomaly(previous, datapoint) : null;
+
+    if (!reason) {
+      return datapoint;
+    }
+
+    return {
+      ...datapoint,
+      quarantined: true,
+      quarantineReason: reason,
+    };
+  });
+};
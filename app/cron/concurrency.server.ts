@@ -0,0 +1,35 @@
+/**
+ * Like `Promise.allSettled(items.map(fn))`, but runs at most `limit` calls at
+ * the same time.
+ */
+export const settleWithConcurrency = async <Item, Result>(
+  items: Item[],
+  limit: number,
+  fn: (item: Item) => Promise<Result>
+): Promise<PromiseSettledResult<Result>[]> => {
+  const results: PromiseSettledResult<Result>[] = [];
+  let nextIndex = 0;
+
+  const work = async (): Promise<void> => {
+    const index = nextIndex;
+    nextIndex += 1;
+
+    if (index >= items.length) {
+      return;
+    }
+
+    try {
+      results[index] = { status: "fulfilled", value: await fn(items[index]) };
+    } catch (error) {
+      results[index] = { status: "rejected", reason: error };
+    }
+
+    return work();
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, work)
+  );
+
+  return results;
+};
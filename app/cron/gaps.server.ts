@@ -0,0 +1,226 @@
+import { type Regions } from "@prisma/client";
+
+import { quarantineAnomalies } from "~/cron/anomalies.server";
+import { toRegionData } from "~/cron/updateRegion.server";
+import { type CutoffSource } from "~/cutoffSources/types";
+import { invalidateCachedSeries } from "~/load.server";
+import { replaceCoverageGaps } from "~/models/coverageGap.server";
+import { refreshRollupsForRows } from "~/models/cutoffRollup.server";
+import { crossFactionHistoryFilter } from "~/models/history.server";
+import { prisma } from "~/prisma.server";
+import { getTrackedSeries, type Season, titlePercentile } from "~/seasons";
+
+/**
+ * The cron runs hourly, so this tolerates two consecutive misses.
+ */
+export const defaultGapThresholdMinutes = 3 * 60;
+
+/**
+ * How far back the cron looks for gaps. New gaps can only end at the latest
+ * datapoint, the rest of the window gives archived snapshots a day to appear
+ * for backfilling. Older gaps are left to `yarn gaps --write`.
+ */
+export const recentGapWindowInSeconds = 24 * 60 * 60;
+
+/**
+ * Unix timestamps in seconds of the datapoints (or season boundaries)
+ * enclosing the gap.
+ */
+export type GapRange = {
+  from: number;
+  to: number;
+};
+
+export type GapReport = {
+  region: Regions;
+  gaps: GapRange[];
+  backfilled: number;
+};
+
+const titleSeriesFilter = {
+  ...crossFactionHistoryFilter,
+  percentile: titlePercentile,
+  role: "all",
+  quarantined: false,
+} as const;
+
+/**
+ * Looks for holes in the title series. The time between the latest datapoint
+ * and now is not a gap but merely outdated, unless the season has ended.
+ *
+ * With `since`, only gaps ending at or after it are returned, which saves
+ * loading the whole season.
+ */
+export const findGaps = async (
+  season: Season,
+  region: Regions,
+  thresholdMinutes: number,
+  since?: number
+): Promise<GapRange[]> => {
+  const start = season.startDates[region];
+
+  if (!start || season.crossFactionSupport === "none") {
+    return [];
+  }
+
+  const end = season.endDates[region];
+  const hasEnded = end !== null && end <= Date.now();
+  const seasonStart = Math.ceil(start / 1000);
+  const from = Math.max(seasonStart, since ?? seasonStart);
+
+  const [previous, datapoints] = await Promise.all([
+    // a gap reaching into the window starts at the datapoint before it
+    from > seasonStart
+      ? prisma.history.findFirst({
+          where: {
+            ...titleSeriesFilter,
+            region,
+            timestamp: {
+              gte: seasonStart,
+              lt: from,
+            },
+          },
+          select: {
+            timestamp: true,
+          },
+          orderBy: {
+            timestamp: "desc",
+          },
+        })
+      : null,
+    prisma.history.findMany({
+      where: {
+        ...titleSeriesFilter,
+        region,
+        timestamp: {
+          gte: from,
+          lte: end ? Math.ceil(end / 1000) : undefined,
+        },
+      },
+      select: {
+        timestamp: true,
+      },
+      orderBy: {
+        timestamp: "asc",
+      },
+    }),
+  ]);
+
+  // before complete cross faction support, the season started with faction rows
+  const first = previous
+    ? [previous.timestamp]
+    : season.crossFactionSupport === "complete"
+    ? [seasonStart]
+    : [];
+  const boundaries = [
+    ...first,
+    ...datapoints.map((datapoint) => datapoint.timestamp),
+    ...(hasEnded ? [Math.ceil(end / 1000)] : []),
+  ];
+
+  return boundaries
+    .slice(1)
+    .map((to, index) => ({ from: boundaries[index], to }))
+    .filter(({ from, to }) => to - from > thresholdMinutes * 60);
+};
+
+const backfillGap = async (
+  season: Season,
+  region: Regions,
+  source: CutoffSource,
+  gap: GapRange
+): Promise<number> => {
+  if (!source.retrieveArchivedCutoffs) {
+    return 0;
+  }
+
+  const snapshots = await source.retrieveArchivedCutoffs(
+    {
+      rioSeasonName: season.rioKey,
+      region,
+      percentiles: season.trackedPercentiles,
+      roles: season.trackedRoles,
+    },
+    gap
+  );
+
+  const regionData = snapshots.flatMap(({ cutoffs, timestamp }) =>
+    toRegionData(cutoffs, region, timestamp, source.kind)
+  );
+
+  if (regionData.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.history.createMany({
+    data: await quarantineAnomalies(region, regionData),
+    skipDuplicates: true,
+  });
+
+  return count;
+};
+
+/**
+ * Finds gaps and, if `write` is set, backfills them from archived snapshots
+ * where the source has any. Whatever remains is stored so the chart can draw
+ * it as a break rather than interpolating across it. With `since`, stored gaps
+ * ending before it are kept as they are.
+ */
+export const detectGaps = async ({
+  season,
+  region,
+  source,
+  thresholdMinutes = defaultGapThresholdMinutes,
+  since,
+  write,
+}: {
+  season: Season;
+  region: Regions;
+  source: CutoffSource;
+  thresholdMinutes?: number;
+  /**
+   * Unix timestamp in seconds, defaults to the season start.
+   */
+  since?: number;
+  write: boolean;
+}): Promise<GapReport> => {
+  const gaps = await findGaps(season, region, thresholdMinutes, since);
+
+  if (!write) {
+    return { region, gaps, backfilled: 0 };
+  }
+
+  const backfilledPerGap = await Promise.all(
+    gaps.map((gap) => backfillGap(season, region, source, gap))
+  );
+  const backfilled = backfilledPerGap.reduce((acc, count) => acc + count, 0);
+
+  const remainingGaps =
+    backfilled > 0
+      ? await findGaps(season, region, thresholdMinutes, since)
+      : gaps;
+
+  await replaceCoverageGaps(season.slug, region, remainingGaps, since);
+
+  if (backfilled > 0) {
+    const trackedSeries = getTrackedSeries(season);
+
+    await Promise.all(
+      trackedSeries.map((series) =>
+        invalidateCachedSeries(season, region, series)
+      )
+    );
+    await refreshRollupsForRows(
+      season,
+      region,
+      trackedSeries.flatMap((series) =>
+        gaps.flatMap(({ from, to }) => [
+          { ...series, timestamp: from },
+          { ...series, timestamp: to },
+        ])
+      )
+    );
+  }
+
+  return { region, gaps: remainingGaps, backfilled };
+};
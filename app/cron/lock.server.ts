@@ -0,0 +1,96 @@
+import { randomUUID } from "node:crypto";
+
+import { type Regions } from "@prisma/client";
+
+import {
+  createUpstashClient,
+  isUpstashConfigured,
+} from "~/cache/upstash.server";
+import { env } from "~/env/server";
+
+const lockTtlInSeconds = 5 * 60;
+
+type LockProvider = {
+  acquire: (key: string, token: string, ttl: number) => Promise<boolean>;
+  release: (key: string, token: string) => Promise<void>;
+};
+
+// only delete the key if it still holds our token, so an expired lock that was
+// taken over by another run is left alone
+const releaseScript = `if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+const setupUpstashLockProvider = (): LockProvider => {
+  const upstash = createUpstashClient();
+
+  return {
+    acquire: async (key, token, ttl) => {
+      const result = await upstash.set(key, token, { nx: true, ex: ttl });
+      return result === "OK";
+    },
+    release: async (key, token) => {
+      await upstash.eval(releaseScript, [key], [token]);
+    },
+  };
+};
+
+const inMemoryLocks = new Map<string, { token: string; expiresAt: number }>();
+
+const inMemoryLockProvider: LockProvider = {
+  acquire: (key, token, ttl) => {
+    const existing = inMemoryLocks.get(key);
+
+    if (existing && existing.expiresAt > Date.now()) {
+      return Promise.resolve(false);
+    }
+
+    inMemoryLocks.set(key, { token, expiresAt: Date.now() + ttl * 1000 });
+    return Promise.resolve(true);
+  },
+  release: (key, token) => {
+    if (inMemoryLocks.get(key)?.token === token) {
+      inMemoryLocks.delete(key);
+    }
+
+    return Promise.resolve();
+  },
+};
+
+/**
+ * Without Upstash, locks only hold within this process.
+ */
+const getLockProvider = (): LockProvider => {
+  return env.NODE_ENV === "development" || !isUpstashConfigured()
+    ? inMemoryLockProvider
+    : setupUpstashLockProvider();
+};
+
+type LockResult<Result> =
+  | { acquired: true; result: Result }
+  | { acquired: false };
+
+/**
+ * Runs `fn` while holding the per-season, per-region cron lock. Overlapping
+ * runs don't wait for the lock but report that they didn't acquire it.
+ */
+export const withRegionLock = async <Result>(
+  season: string,
+  region: Regions,
+  fn: () => Promise<Result>
+): Promise<LockResult<Result>> => {
+  const provider = getLockProvider();
+  const key = ["lock", "cron", season, region].join(":");
+  const token = randomUUID();
+
+  if (!(await provider.acquire(key, token, lockTtlInSeconds))) {
+    return { acquired: false };
+  }
+
+  try {
+    return { acquired: true, result: await fn() };
+  } finally {
+    await provider.release(key, token);
+  }
+};
@@ -0,0 +1,67 @@
+import { Regions } from "@prisma/client";
+
+import { getRetriesForSeason } from "~/models/cronRetry.server";
+import { crossFactionHistoryFilter } from "~/models/history.server";
+import { prisma } from "~/prisma.server";
+import { type Season, titlePercentile } from "~/seasons";
+
+export const getRegionsWithSeasonStarted = (season: Season): Regions[] => {
+  return Object.entries(season.startDates)
+    .filter(([, timestamp]) => timestamp && timestamp < Date.now())
+    .map(([region]) => region)
+    .filter((region): region is Regions => region in Regions);
+};
+
+/**
+ * Returns every started region whose most recent datapoint is older than the
+ * freshness window, most outdated first. Regions that recently failed are
+ * held back until their retry is due.
+ */
+export const getOutdatedRegionsForSeason = async (
+  season: Season,
+  freshnessWindowMinutes: number
+): Promise<Regions[]> => {
+  const regionsWithSeasonStarted = getRegionsWithSeasonStarted(season);
+
+  if (regionsWithSeasonStarted.length === 0) {
+    return [];
+  }
+
+  const threshold = Math.round(Date.now() / 1000 - freshnessWindowMinutes * 60);
+
+  const retries = await getRetriesForSeason(season.slug);
+  const now = Math.round(Date.now() / 1000);
+
+  const isBackingOff = (region: Regions) => {
+    return retries.some(
+      (retry) => retry.region === region && retry.nextAttemptAt > now
+    );
+  };
+
+  const latestByRegion = await prisma.history.groupBy({
+    by: ["region"],
+    where: {
+      ...crossFactionHistoryFilter,
+      region: {
+        in: regionsWithSeasonStarted,
+      },
+      percentile: titlePercentile,
+      role: "all",
+    },
+    _max: {
+      timestamp: true,
+    },
+  });
+
+  const lastUpdate = (region: Regions) => {
+    return (
+      latestByRegion.find((dataset) => dataset.region === region)?._max
+        .timestamp ?? 0
+    );
+  };
+
+  return regionsWithSeasonStarted
+    .filter((region) => lastUpdate(region) <= threshold)
+    .filter((region) => !isBackingOff(region))
+    .sort((a, b) => lastUpdate(a) - lastUpdate(b));
+};
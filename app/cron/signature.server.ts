@@ -0,0 +1,64 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const signatureHeader = "X-Cron-Signature";
+export const timestampHeader = "X-Cron-Timestamp";
+
+const signaturePrefix = "sha256=";
+
+type VerificationResult = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Signs `<timestamp>.<body>` so the timestamp cannot be swapped without
+ * invalidating the signature.
+ */
+export const createCronSignature = (
+  secret: string,
+  timestamp: string,
+  body: string
+): string => {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `${signaturePrefix}${digest}`;
+};
+
+export const verifyCronSignature = ({
+  secret,
+  headers,
+  body,
+  toleranceInSeconds,
+  now = Date.now(),
+}: {
+  secret: string;
+  headers: Headers;
+  body: string;
+  toleranceInSeconds: number;
+  now?: number;
+}): VerificationResult => {
+  const signature = headers.get(signatureHeader);
+  const timestamp = headers.get(timestampHeader);
+
+  if (!signature || !timestamp) {
+    return { valid: false, reason: "signature headers missing" };
+  }
+
+  const signedAt = Number.parseInt(timestamp);
+
+  if (Number.isNaN(signedAt)) {
+    return { valid: false, reason: "timestamp malformed" };
+  }
+
+  if (Math.abs(now / 1000 - signedAt) > toleranceInSeconds) {
+    return { valid: false, reason: "timestamp outside tolerance" };
+  }
+
+  const expected = Buffer.from(createCronSignature(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "signature mismatch" };
+  }
+
+  return { valid: true };
+};
@@ -0,0 +1,317 @@
+/* eslint-disable no-console */
+import {
+  type Prisma,
+  type Regions,
+  type Roles,
+  ScoreKinds,
+} from "@prisma/client";
+
+import { quarantineAnomalies } from "~/cron/anomalies.server";
+import { withRegionLock } from "~/cron/lock.server";
+import {
+  CutoffSourceError,
+  HttpRateLimitedError,
+} from "~/cutoffSources/errors";
+import { type HttpClient } from "~/cutoffSources/http.server";
+import { getCutoffSourceForSeason } from "~/cutoffSources/index.server";
+import { type Cutoff, type CutoffSource } from "~/cutoffSources/types";
+import { type CachedSeriesRefresh, refreshCachedSeries } from "~/load.server";
+import { clearRetry, scheduleRetry } from "~/models/cronRetry.server";
+import { recordCronRun } from "~/models/cronRun.server";
+import { refreshRollupsForRows } from "~/models/cutoffRollup.server";
+import { crossFactionHistoryFilter } from "~/models/history.server";
+import { prisma } from "~/prisma.server";
+import { type Season, titlePercentile } from "~/seasons";
+
+export type RegionUpdate = {
+  regionData: Prisma.HistoryCreateManyInput[];
+  pagesFetched: number;
+};
+
+export const toRegionData = (
+  cutoffs: Cutoff[],
+  region: Regions,
+  timestamp: number,
+  source: CutoffSource["kind"]
+): RegionUpdate["regionData"] => {
+  return cutoffs.map(({ score, rank, percentile, role, population }) => ({
+    scoreKind: ScoreKinds.custom,
+    score,
+    rank,
+    population,
+    percentile,
+    role,
+    timestamp,
+    hourBucket: Math.floor(timestamp / 3600),
+    region,
+    source,
+  }));
+};
+
+export const parseRegionData = async (
+  source: CutoffSource,
+  region: Regions,
+  season: Season,
+  client?: HttpClient
+): Promise<RegionUpdate> => {
+  const now = Math.round(Date.now() / 1000);
+
+  console.time(`retrieveCutoff-${source.kind}-${region}`);
+  const { cutoffs, pagesFetched } = await source.retrieveCutoff({
+    rioSeasonName: season.rioKey,
+    region,
+    percentiles: season.trackedPercentiles,
+    roles: season.trackedRoles,
+    client,
+  });
+  console.timeEnd(`retrieveCutoff-${source.kind}-${region}`);
+
+  console.info(`fetched ${pagesFetched} pages for ${region}`);
+
+  if (
+    !cutoffs.some(
+      (cutoff) => cutoff.percentile === titlePercentile && cutoff.role === "all"
+    )
+  ) {
+    throw new CutoffSourceError(
+      `Source did not provide the ${titlePercentile}% title cutoff.`,
+      pagesFetched
+    );
+  }
+
+  return {
+    regionData: toRegionData(cutoffs, region, now, source.kind),
+    pagesFetched,
+  };
+};
+
+export const findTitleCutoff = (
+  regionData: RegionUpdate["regionData"]
+): RegionUpdate["regionData"][number] | null => {
+  return (
+    regionData.find(
+      (dataset) =>
+        dataset.percentile === titlePercentile && dataset.role === "all"
+    ) ?? null
+  );
+};
+
+export type QuarantinedCutoff = {
+  percentile: number;
+  role: Roles;
+  reason: string;
+};
+
+export type RegionUpdateResult =
+  | ({
+      status: "updated";
+      cache: CachedSeriesRefresh[];
+      quarantined: QuarantinedCutoff[];
+      duplicates: number;
+    } & RegionUpdate)
+  | { status: "skipped"; reason: string };
+
+const collectQuarantinedCutoffs = (
+  regionData: RegionUpdate["regionData"]
+): QuarantinedCutoff[] => {
+  return regionData.flatMap<QuarantinedCutoff>((dataset) =>
+    dataset.quarantined
+      ? [
+          {
+            percentile: dataset.percentile ?? titlePercentile,
+            role: dataset.role ?? "all",
+            reason: dataset.quarantineReason ?? "",
+          },
+        ]
+      : []
+  );
+};
+
+/**
+ * Rollups can be rebuilt with `yarn rollups`, so failing to refresh them
+ * doesn't fail the run.
+ */
+const refreshRegionRollups = async (
+  season: Season,
+  region: Regions,
+  rows: Parameters<typeof refreshRollupsForRows>[2]
+) => {
+  try {
+    await refreshRollupsForRows(season, region, rows);
+  } catch (error) {
+    console.error(`failed to refresh rollups of ${region}`, error);
+  }
+};
+
+/**
+ * `skipDuplicates` silently drops rows of series another run already wrote
+ * for this hour, e.g. when it missed some percentiles or roles. Rows carrying
+ * this run's timestamp are the ones that were actually inserted.
+ */
+const findInsertedRows = async (
+  region: Regions,
+  regionData: RegionUpdate["regionData"]
+): Promise<RegionUpdate["regionData"]> => {
+  const [first] = regionData;
+
+  if (!first) {
+    return [];
+  }
+
+  const inserted = await prisma.history.findMany({
+    where: {
+      ...crossFactionHistoryFilter,
+      region,
+      hourBucket: first.hourBucket,
+      timestamp: first.timestamp,
+    },
+    select: {
+      percentile: true,
+      role: true,
+    },
+  });
+  const insertedKeys = new Set(
+    inserted.map(({ percentile, role }) => `${percentile}~${role}`)
+  );
+
+  return regionData.filter((dataset) =>
+    insertedKeys.has(
+      `${dataset.percentile ?? titlePercentile}~${dataset.role ?? "all"}`
+    )
+  );
+};
+
+const duplicateReason = "datapoints for this hour already exist";
+const lockedReason = "another run holds the lock for this region";
+
+const performUpdate = async (
+  season: Season,
+  region: Regions,
+  source: CutoffSource,
+  client: HttpClient | undefined,
+  startedAt: number
+): Promise<RegionUpdateResult> => {
+  try {
+    const parsed = await parseRegionData(source, region, season, client);
+    const update = {
+      ...parsed,
+      regionData: await quarantineAnomalies(region, parsed.regionData),
+    };
+    const titleCutoff = findTitleCutoff(update.regionData);
+
+    const { count } = await prisma.history.createMany({
+      data: update.regionData,
+      skipDuplicates: true,
+    });
+    await clearRetry(season.slug, region);
+
+    const inserted =
+      count === update.regionData.length
+        ? update.regionData
+        : await findInsertedRows(region, update.regionData);
+    const duplicates = update.regionData.length - inserted.length;
+    const isDuplicate = inserted.length === 0;
+
+    await recordCronRun({
+      startedAt,
+      finishedAt: Math.round(Date.now() / 1000),
+      season: season.slug,
+      region,
+      source: source.kind,
+      pagesFetched: update.pagesFetched,
+      rank: titleCutoff?.rank,
+      score: titleCutoff?.score,
+      outcome: isDuplicate ? "skipped" : "success",
+      error: isDuplicate ? duplicateReason : null,
+      duplicates,
+    });
+
+    if (isDuplicate) {
+      return { status: "skipped", reason: duplicateReason };
+    }
+
+    if (duplicates > 0) {
+      console.info(`skipped ${duplicates} existing datapoints of ${region}`);
+    }
+
+    const quarantined = collectQuarantinedCutoffs(inserted);
+
+    quarantined.forEach(({ percentile, role, reason }) => {
+      console.warn(`quarantined ${region} ${role} ${percentile}%: ${reason}`);
+    });
+
+    const accepted = inserted
+      .filter((dataset) => !dataset.quarantined)
+      .map((dataset) => ({
+        ...dataset,
+        percentile: dataset.percentile ?? titlePercentile,
+        role: dataset.role ?? "all",
+        population: dataset.population ?? null,
+      }));
+
+    const cache = await refreshCachedSeries(season, region, accepted);
+    await refreshRegionRollups(season, region, accepted);
+
+    return {
+      status: "updated",
+      cache,
+      quarantined,
+      duplicates,
+      ...update,
+      regionData: inserted,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await recordCronRun({
+      startedAt,
+      finishedAt: Math.round(Date.now() / 1000),
+      season: season.slug,
+      region,
+      source: source.kind,
+      pagesFetched:
+        error instanceof CutoffSourceError ? error.pagesFetched : null,
+      outcome: "failure",
+      error: message,
+    });
+    await scheduleRetry(
+      season.slug,
+      region,
+      message,
+      error instanceof HttpRateLimitedError
+        ? Math.ceil(error.retryAfterInMs / 1000)
+        : undefined
+    );
+
+    throw error;
+  }
+};
+
+export const updateRegion = async (
+  season: Season,
+  region: Regions,
+  source: CutoffSource = getCutoffSourceForSeason(season),
+  client?: HttpClient
+): Promise<RegionUpdateResult> => {
+  const startedAt = Math.round(Date.now() / 1000);
+
+  const lock = await withRegionLock(season.slug, region, () =>
+    performUpdate(season, region, source, client, startedAt)
+  );
+
+  if (lock.acquired) {
+    return lock.result;
+  }
+
+  await recordCronRun({
+    startedAt,
+    finishedAt: Math.round(Date.now() / 1000),
+    season: season.slug,
+    region,
+    source: source.kind,
+    outcome: "skipped",
+    error: lockedReason,
+  });
+
+  return { status: "skipped", reason: lockedReason };
+};
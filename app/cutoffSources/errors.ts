@@ -0,0 +1,112 @@
+/**
+ * Thrown when a source could not produce a plausible cutoff. Never persisted
+ * as history, only as failed cron run.
+ */
+export class CutoffSourceError extends Error {
+  public readonly pagesFetched: number;
+
+  public constructor(message: string, pagesFetched: number) {
+    super(message);
+    this.name = "CutoffSourceError";
+    this.pagesFetched = pagesFetched;
+  }
+}
+
+export class HttpStatusError extends Error {
+  public readonly url: string;
+
+  public readonly status: number;
+
+  public constructor(url: string, status: number) {
+    super(`Request to ${url} failed with status ${status}.`);
+    this.name = "HttpStatusError";
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export class HttpTimeoutError extends Error {
+  public readonly url: string;
+
+  public constructor(url: string, timeoutInMs: number) {
+    super(`Request to ${url} timed out after ${timeoutInMs}ms.`);
+    this.name = "HttpTimeoutError";
+    this.url = url;
+  }
+}
+
+/**
+ * Connection resets, DNS failures and the like, anything but a response.
+ */
+export class HttpNetworkError extends Error {
+  public readonly url: string;
+
+  public constructor(url: string, cause: unknown) {
+    super(
+      `Request to ${url} failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "HttpNetworkError";
+    this.url = url;
+    this.cause = cause;
+  }
+}
+
+export type RetryableHttpError =
+  | HttpStatusError
+  | HttpTimeoutError
+  | HttpNetworkError;
+
+export class RetriesExhaustedError extends Error {
+  public readonly url: string;
+
+  public readonly attempts: number;
+
+  public readonly lastError: RetryableHttpError;
+
+  public constructor(
+    url: string,
+    attempts: number,
+    lastError: RetryableHttpError
+  ) {
+    super(
+      `Giving up on ${url} after ${attempts} attempts: ${lastError.message}`
+    );
+    this.name = "RetriesExhaustedError";
+    this.url = url;
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+export class RequestBudgetExceededError extends Error {
+  public readonly url: string;
+
+  public constructor(url: string, budget: number) {
+    super(`Request budget of ${budget} exhausted before requesting ${url}.`);
+    this.name = "RequestBudgetExceededError";
+    this.url = url;
+  }
+}
+
+/**
+ * Thrown when the server asks to wait longer than a run is willing to, so the
+ * caller can reschedule instead.
+ */
+export class HttpRateLimitedError extends Error {
+  public readonly url: string;
+
+  public readonly retryAfterInMs: number;
+
+  public constructor(url: string, retryAfterInMs: number) {
+    super(
+      `Rate limited by ${url}, asked to retry after ${Math.ceil(
+        retryAfterInMs / 1000
+      )}s.`
+    );
+    this.name = "HttpRateLimitedError";
+    this.url = url;
+    this.retryAfterInMs = retryAfterInMs;
+  }
+}
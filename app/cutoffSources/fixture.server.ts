@@ -0,0 +1,82 @@
+/* eslint-disable no-console */
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { env } from "~/env/server";
+
+import {
+  createRaiderIoHtmlSource,
+  type PageLoader,
+} from "./raiderIoHtml.server";
+import { type ArchivedCutoffs, type CutoffSource } from "./types";
+
+const getFixtureDir = () => {
+  if (!env.CUTOFF_SOURCE_FIXTURE_DIR) {
+    throw new Error(
+      "CUTOFF_SOURCE_FIXTURE_DIR is required for fixture source."
+    );
+  }
+
+  return env.CUTOFF_SOURCE_FIXTURE_DIR;
+};
+
+/**
+ * Maps a leaderboard url onto a recorded page below `dir`, e.g.
+ * `/mythic-plus-character-rankings/season-df-2/eu/all/all/0` is read from
+ * `<dir>/mythic-plus-character-rankings/season-df-2/eu/all/all/0.html`.
+ */
+const createRecordedPageLoader = (dir: string): PageLoader => {
+  return (url) => {
+    const { pathname } = new URL(url);
+
+    return readFile(join(dir, `${pathname}.html`), "utf8");
+  };
+};
+
+const loadRecordedPage: PageLoader = (url) => {
+  return createRecordedPageLoader(getFixtureDir())(url);
+};
+
+/**
+ * Snapshots are recorded the same way as the current pages, below
+ * `<CUTOFF_SOURCE_FIXTURE_DIR>/snapshots/<unix timestamp in seconds>/`.
+ */
+const retrieveArchivedCutoffs: NonNullable<
+  CutoffSource["retrieveArchivedCutoffs"]
+> = async (params, { from, to }) => {
+  const snapshotsDir = join(getFixtureDir(), "snapshots");
+
+  const timestamps = await readdir(snapshotsDir).then(
+    (entries) =>
+      entries
+        .map((entry) => Number.parseInt(entry))
+        .filter((timestamp) => timestamp > from && timestamp < to),
+    () => []
+  );
+
+  const archived = await Promise.all(
+    timestamps.map(async (timestamp): Promise<ArchivedCutoffs | null> => {
+      const source = createRaiderIoHtmlSource(
+        () => createRecordedPageLoader(join(snapshotsDir, String(timestamp))),
+        "fixture"
+      );
+
+      try {
+        const { cutoffs } = await source.retrieveCutoff(params);
+        return { timestamp, cutoffs };
+      } catch (error) {
+        console.warn(`Skipping unreadable snapshot ${timestamp}.`, error);
+        return null;
+      }
+    })
+  );
+
+  return archived
+    .filter((snapshot): snapshot is ArchivedCutoffs => snapshot !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const fixtureSource: CutoffSource = {
+  ...createRaiderIoHtmlSource(() => loadRecordedPage, "fixture"),
+  retrieveArchivedCutoffs,
+};
@@ -0,0 +1,165 @@
+import {
+  HttpNetworkError,
+  HttpRateLimitedError,
+  HttpStatusError,
+  HttpTimeoutError,
+  RequestBudgetExceededError,
+  RetriesExhaustedError,
+  type RetryableHttpError,
+} from "./errors";
+
+const userAgent = "mplus-title (+https://mplus-title.vercel.app/)";
+
+const defaultTimeoutInMs = 10_000;
+const defaultMaxRetries = 3;
+/**
+ * Shared by all regions of a run, each of which reads up to four leaderboards.
+ */
+const defaultRequestBudget = 600;
+const baseBackoffInMs = 500;
+const maxBackoffInMs = 15_000;
+
+const sleep = (ms: number) => {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+};
+
+const isRetryableStatus = (status: number) => {
+  return status === 429 || status >= 500;
+};
+
+/**
+ * `Retry-After` is either a number of seconds or an http date.
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number.parseInt(header);
+
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+type HttpClientOptions = {
+  timeoutInMs?: number;
+  maxRetries?: number;
+  requestBudget?: number;
+};
+
+export type HttpClient = {
+  text: (url: string) => Promise<string>;
+  json: (url: string) => Promise<unknown>;
+  getRequestCount: () => number;
+};
+
+/**
+ * Creates a client for a single run, shared by all regions it updates. Every
+ * attempt, retries included, counts against the request budget.
+ */
+export const createHttpClient = ({
+  timeoutInMs = defaultTimeoutInMs,
+  maxRetries = defaultMaxRetries,
+  requestBudget = defaultRequestBudget,
+}: HttpClientOptions = {}): HttpClient => {
+  let requestCount = 0;
+
+  /**
+   * The timeout covers reading the body too, so a server stalling after the
+   * headers is retried like one that never answers.
+   */
+  const attempt = async (
+    url: string
+  ): Promise<{ response: Response; body: string }> => {
+    if (requestCount >= requestBudget) {
+      throw new RequestBudgetExceededError(url, requestBudget);
+    }
+
+    requestCount += 1;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+    }, timeoutInMs);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          "User-Agent": userAgent,
+        },
+        signal: controller.signal,
+      });
+
+      return { response, body: await response.text() };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new HttpTimeoutError(url, timeoutInMs);
+      }
+
+      throw new HttpNetworkError(url, error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  const request = async (url: string, retry = 0): Promise<string> => {
+    let failure: RetryableHttpError;
+    let retryAfter: number | null = null;
+
+    try {
+      const { response, body } = await attempt(url);
+
+      if (response.ok) {
+        return body;
+      }
+
+      failure = new HttpStatusError(url, response.status);
+
+      if (!isRetryableStatus(response.status)) {
+        throw failure;
+      }
+
+      retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    } catch (error) {
+      if (
+        !(
+          error instanceof HttpTimeoutError || error instanceof HttpNetworkError
+        )
+      ) {
+        throw error;
+      }
+
+      failure = error;
+    }
+
+    if (retryAfter !== null && retryAfter > maxBackoffInMs) {
+      throw new HttpRateLimitedError(url, retryAfter);
+    }
+
+    if (retry >= maxRetries) {
+      throw new RetriesExhaustedError(url, retry + 1, failure);
+    }
+
+    await sleep(
+      retryAfter ?? Math.min(baseBackoffInMs * 2 ** retry, maxBackoffInMs)
+    );
+
+    return request(url, retry + 1);
+  };
+
+  return {
+    text: (url) => request(url),
+    json: async (url) => {
+      const body = await request(url);
+      return JSON.parse(body) as unknown;
+    },
+    getRequestCount: () => requestCount,
+  };
+};
@@ -0,0 +1,25 @@
+import { env } from "~/env/server";
+import { type Season } from "~/seasons";
+
+import { fixtureSource } from "./fixture.server";
+import { raiderIoApiSource } from "./raiderIoApi.server";
+import { createRaiderIoHtmlSource } from "./raiderIoHtml.server";
+import { type CutoffSource, type CutoffSourceKind } from "./types";
+
+const sources: Record<CutoffSourceKind, CutoffSource> = {
+  raiderIoHtml: createRaiderIoHtmlSource(),
+  raiderIoApi: raiderIoApiSource,
+  fixture: fixtureSource,
+};
+
+export const getCutoffSource = (kind: CutoffSourceKind): CutoffSource => {
+  return sources[kind];
+};
+
+/**
+ * `CUTOFF_SOURCE` overrides the per-season choice, e.g. to run against
+ * recorded pages offline.
+ */
+export const getCutoffSourceForSeason = (season: Season): CutoffSource => {
+  return getCutoffSource(env.CUTOFF_SOURCE ?? season.cutoffSource);
+};
@@ -0,0 +1,108 @@
+/* eslint-disable no-console */
+import { z } from "zod";
+
+import { CutoffSourceError } from "./errors";
+import { createHttpClient } from "./http.server";
+import { rioBaseUrl } from "./raiderIoHtml.server";
+import {
+  type Cutoff,
+  type CutoffSource,
+  type CutoffSourceParams,
+  type CutoffSourceResult,
+} from "./types";
+
+const quantileSchema = z.object({
+  quantileMinValue: z.number().positive(),
+  quantilePopulationCount: z.number().int().positive(),
+  totalPopulationCount: z.number().int().positive(),
+});
+
+const seasonCutoffsSchema = z.object({
+  cutoffs: z.record(z.unknown()),
+});
+
+const percentileCutoffSchema = z.object({
+  all: quantileSchema,
+});
+
+/**
+ * The API keys quantiles by the share of characters below them, e.g. the top
+ * 0.1% are found under `p999`.
+ */
+const toQuantileKey = (percentile: number) => {
+  return `p${Math.round((100 - percentile) * 10)}`;
+};
+
+const createSeasonCutoffsUrl = ({
+  rioSeasonName,
+  region,
+}: CutoffSourceParams) => {
+  const params = new URLSearchParams({ season: rioSeasonName, region });
+
+  return `${rioBaseUrl}/api/v1/mythic-plus/season-cutoffs?${params.toString()}`;
+};
+
+const retrieveCutoff = async (
+  params: CutoffSourceParams
+): Promise<CutoffSourceResult> => {
+  const client = params.client ?? createHttpClient({ requestBudget: 5 });
+  const parsed = seasonCutoffsSchema.safeParse(
+    await client.json(createSeasonCutoffsUrl(params))
+  );
+
+  if (!parsed.success) {
+    throw new CutoffSourceError(
+      `Could not parse season cutoffs response: ${parsed.error.message}`,
+      1
+    );
+  }
+
+  const cutoffs = params.percentiles.flatMap<Cutoff>((percentile) => {
+    const quantile = percentileCutoffSchema.safeParse(
+      parsed.data.cutoffs[toQuantileKey(percentile)]
+    );
+
+    if (!quantile.success) {
+      console.warn(`No usable ${percentile}% cutoff in response, skipping.`);
+      return [];
+    }
+
+    const { quantileMinValue, quantilePopulationCount, totalPopulationCount } =
+      quantile.data.all;
+
+    return [
+      {
+        percentile,
+        role: "all",
+        score: quantileMinValue,
+        rank: quantilePopulationCount,
+        population: totalPopulationCount,
+      },
+    ];
+  });
+
+  if (params.roles.length > 0) {
+    console.warn("Role cutoffs are not provided by the API, skipping.");
+  }
+
+  if (cutoffs.length === 0) {
+    throw new CutoffSourceError(
+      "Season cutoffs response contained none of the tracked percentiles.",
+      1
+    );
+  }
+
+  return {
+    cutoffs,
+    pagesFetched: 1,
+  };
+};
+
+/**
+ * Reads the pre-computed season cutoffs from the Raider.io JSON API instead of
+ * scraping leaderboard markup.
+ */
+export const raiderIoApiSource: CutoffSource = {
+  kind: "raiderIoApi",
+  retrieveCutoff,
+};
@@ -0,0 +1,336 @@
+/* eslint-disable no-console */
+import { type Regions, type Roles } from "@prisma/client";
+import { load } from "cheerio";
+
+import { titlePercentile } from "~/seasons";
+
+import { CutoffSourceError } from "./errors";
+import { createHttpClient, type HttpClient } from "./http.server";
+import {
+  type Cutoff,
+  type CutoffSource,
+  type CutoffSourceKind,
+  type CutoffSourceParams,
+  type CutoffSourceResult,
+} from "./types";
+
+export const rioBaseUrl = "https://raider.io";
+
+if (!String.prototype.replaceAll) {
+  // eslint-disable-next-line no-extend-native, func-names
+  String.prototype.replaceAll = function (str, newStr) {
+    // If a regex pattern
+    if (
+      Object.prototype.toString.call(str).toLowerCase() === "[object regexp]"
+    ) {
+      // @ts-expect-error required polyfill
+      return this.replace(str, newStr);
+    }
+
+    // If a string
+    // @ts-expect-error required polyfill
+    return this.replaceAll(new RegExp(str, "gu"), newStr);
+  };
+}
+
+export type PageLoader = (url: string) => Promise<string>;
+
+const createFetchPage = (client: HttpClient): PageLoader => {
+  return client.text;
+};
+
+const rowsPerPage = 20;
+const maxPageFetches = 40;
+
+const createPageUrl = (
+  rioSeasonName: string,
+  region: Regions,
+  role: Roles,
+  page = 0
+) => {
+  return `${rioBaseUrl}/mythic-plus-character-rankings/${rioSeasonName}/${region}/all/${role}/${page}`;
+};
+
+type LeaderboardRow = {
+  rank: number;
+  score: number;
+};
+
+type LeaderboardPage = {
+  rows: LeaderboardRow[];
+  lastPageHint: number | null;
+};
+
+const parseNumber = (text: string) => {
+  return Number.parseFloat(text.replaceAll(",", ""));
+};
+
+const parseLeaderboardPage = (html: string): LeaderboardPage => {
+  const $ = load(html);
+
+  const rows = $(".mythic-plus-rankings--row")
+    .map((_, element) => {
+      const row = $(element);
+
+      return {
+        rank: parseNumber(row.find(".rank-text-normal").first().text()),
+        score: parseNumber(row.find("b").first().text()),
+      };
+    })
+    .get()
+    .filter(
+      (row) =>
+        Number.isInteger(row.rank) && row.rank > 0 && !Number.isNaN(row.score)
+    );
+
+  const href = $(".rio-pagination--button").last().attr("href");
+  const lastPageHint = href
+    ? Number.parseInt(href.replace("#content", "").split("/").pop() ?? "")
+    : Number.NaN;
+
+  return {
+    rows,
+    lastPageHint: Number.isNaN(lastPageHint) ? null : lastPageHint,
+  };
+};
+
+/**
+ * Caches pages per run and enforces the fetch budget, so each page is only
+ * requested once no matter how often the search revisits it. Pages are cached
+ * as soon as they are requested, so parallel percentile lookups share a fetch
+ * still in flight.
+ */
+const createPageReader = (
+  loadPage: PageLoader,
+  rioSeasonName: string,
+  region: Regions,
+  role: Roles
+) => {
+  const pages = new Map<number, Promise<LeaderboardPage>>();
+
+  const fetchPage = async (page: number): Promise<LeaderboardPage> => {
+    return parseLeaderboardPage(
+      await loadPage(createPageUrl(rioSeasonName, region, role, page))
+    );
+  };
+
+  const read = async (page: number): Promise<LeaderboardPage> => {
+    const cached = pages.get(page);
+
+    if (cached) {
+      return cached;
+    }
+
+    if (pages.size >= maxPageFetches) {
+      throw new CutoffSourceError(
+        `Exceeded budget of ${maxPageFetches} page fetches for ${region}/${role}.`,
+        pages.size
+      );
+    }
+
+    const pending = fetchPage(page);
+    pages.set(page, pending);
+
+    return pending;
+  };
+
+  return {
+    read,
+    getPagesFetched: () => pages.size,
+  };
+};
+
+type PageReader = ReturnType<typeof createPageReader>;
+
+const hasRows = async (reader: PageReader, page: number) => {
+  const { rows } = await reader.read(page);
+  return rows.length > 0;
+};
+
+/**
+ * Doubles `high` until an empty page is hit, returning the bounds for the
+ * binary search.
+ */
+const expandUpperBound = async (
+  reader: PageReader,
+  low: number,
+  high: number
+): Promise<[number, number]> => {
+  if (!(await hasRows(reader, high))) {
+    return [low, high];
+  }
+
+  return expandUpperBound(reader, high, high * 2);
+};
+
+/**
+ * `low` is known to have rows, `high` is known to be empty.
+ */
+const binarySearchLastPage = async (
+  reader: PageReader,
+  low: number,
+  high: number
+): Promise<number> => {
+  if (high - low <= 1) {
+    return low;
+  }
+
+  const middle = Math.floor((low + high) / 2);
+
+  return (await hasRows(reader, middle))
+    ? binarySearchLastPage(reader, middle, high)
+    : binarySearchLastPage(reader, low, middle);
+};
+
+/**
+ * Finds the last non-empty leaderboard page. The pagination hint is trusted
+ * when that page has rows; otherwise the hint (or, lacking one, the first empty
+ * page found by doubling) is used as upper bound of a binary search.
+ */
+const findLastPage = async (
+  reader: PageReader,
+  firstPage: LeaderboardPage
+): Promise<number> => {
+  const { lastPageHint } = firstPage;
+
+  if (lastPageHint === null || lastPageHint <= 0) {
+    const [low, high] = await expandUpperBound(reader, 0, 1);
+    return binarySearchLastPage(reader, low, high);
+  }
+
+  if (await hasRows(reader, lastPageHint)) {
+    return lastPageHint;
+  }
+
+  return binarySearchLastPage(reader, 0, lastPageHint);
+};
+
+const determineTotalRankedCharacters = async (
+  reader: PageReader
+): Promise<number> => {
+  const firstPage = await reader.read(0);
+
+  if (firstPage.rows.length === 0) {
+    throw new CutoffSourceError(
+      "First leaderboard page has no entries.",
+      reader.getPagesFetched()
+    );
+  }
+
+  const lastPage = await reader.read(await findLastPage(reader, firstPage));
+
+  return Math.max(...lastPage.rows.map((row) => row.rank));
+};
+
+const retrieveScore = async (reader: PageReader, lastEligibleRank: number) => {
+  const scorePage = await reader.read(
+    Math.floor((lastEligibleRank - 1) / rowsPerPage)
+  );
+
+  const match = scorePage.rows.find((row) => row.rank === lastEligibleRank);
+
+  if (!match) {
+    throw new CutoffSourceError(
+      `Could not find rank ${lastEligibleRank} on its leaderboard page.`,
+      reader.getPagesFetched()
+    );
+  }
+
+  return match.score;
+};
+
+const retrievePercentileCutoff = async (
+  reader: PageReader,
+  totalRankedCharacters: number,
+  percentile: number,
+  role: Roles
+): Promise<Cutoff> => {
+  const rank = Math.floor((totalRankedCharacters * percentile) / 100);
+
+  if (rank === 0) {
+    throw new CutoffSourceError(
+      `Too few ranked characters (${totalRankedCharacters}) for a ${percentile}% cutoff.`,
+      reader.getPagesFetched()
+    );
+  }
+
+  return {
+    percentile,
+    role,
+    rank,
+    population: totalRankedCharacters,
+    score: await retrieveScore(reader, rank),
+  };
+};
+
+const retrieveLeaderboardCutoffs = async (
+  reader: PageReader,
+  percentiles: number[],
+  role: Roles
+): Promise<Cutoff[]> => {
+  console.time(`determineTotalRankedCharacters-${role}`);
+  const totalRankedCharacters = await determineTotalRankedCharacters(reader);
+  console.timeEnd(`determineTotalRankedCharacters-${role}`);
+
+  console.debug({ role, totalRankedCharacters });
+
+  return Promise.all(
+    percentiles.map((percentile) =>
+      retrievePercentileCutoff(reader, totalRankedCharacters, percentile, role)
+    )
+  );
+};
+
+/**
+ * Scrapes the public character leaderboards. The page loader is injectable so
+ * recorded pages can be replayed through the very same parsing code; a new
+ * loader is created for every region, fetching through the run's client.
+ *
+ * Role leaderboards only contribute the title cutoff. A failing role
+ * leaderboard is skipped, a failing overall leaderboard fails the run.
+ */
+export const createRaiderIoHtmlSource = (
+  createPageLoader: (client: HttpClient) => PageLoader = createFetchPage,
+  kind: CutoffSourceKind = "raiderIoHtml"
+): CutoffSource => {
+  const retrieveCutoff = async ({
+    rioSeasonName,
+    region,
+    percentiles,
+    roles,
+    client = createHttpClient(),
+  }: CutoffSourceParams): Promise<CutoffSourceResult> => {
+    const loadPage = createPageLoader(client);
+    const overallReader = createPageReader(
+      loadPage,
+      rioSeasonName,
+      region,
+      "all"
+    );
+    const roleReaders = roles.map((role) => ({
+      role,
+      reader: createPageReader(loadPage, rioSeasonName, region, role),
+    }));
+
+    const [overallCutoffs, ...settledRoleCutoffs] = await Promise.all([
+      retrieveLeaderboardCutoffs(overallReader, percentiles, "all"),
+      ...roleReaders.map(({ role, reader }) =>
+        retrieveLeaderboardCutoffs(reader, [titlePercentile], role).catch(
+          (error: unknown) => {
+            console.warn(`Could not retrieve ${role} cutoff, skipping.`, error);
+            return [];
+          }
+        )
+      ),
+    ]);
+
+    return {
+      cutoffs: [...overallCutoffs, ...settledRoleCutoffs.flat()],
+      pagesFetched: [overallReader, ...roleReaders.map(({ reader }) => reader)]
+        .map((reader) => reader.getPagesFetched())
+        .reduce((acc, pages) => acc + pages, 0),
+    };
+  };
+
+  return { kind, retrieveCutoff };
+};
@@ -0,0 +1,60 @@
+import { type Regions, type Roles } from "@prisma/client";
+
+import { type HttpClient } from "./http.server";
+
+export const cutoffSourceKinds = [
+  "raiderIoHtml",
+  "raiderIoApi",
+  "fixture",
+] as const;
+
+export type CutoffSourceKind = typeof cutoffSourceKinds[number];
+
+export type CutoffSourceParams = {
+  rioSeasonName: string;
+  region: Regions;
+  percentiles: number[];
+  roles: Roles[];
+  /**
+   * Shares the request budget across all regions of a run. Sources create
+   * their own client if omitted.
+   */
+  client?: HttpClient;
+};
+
+export type Cutoff = {
+  percentile: number;
+  role: Roles;
+  score: number;
+  rank: number;
+  /**
+   * Total ranked characters on the leaderboard the cutoff was derived from.
+   */
+  population: number;
+};
+
+export type CutoffSourceResult = {
+  cutoffs: Cutoff[];
+  pagesFetched: number;
+};
+
+export type ArchivedCutoffs = {
+  /**
+   * Unix timestamp in seconds the snapshot was taken at.
+   */
+  timestamp: number;
+  cutoffs: Cutoff[];
+};
+
+export type CutoffSource = {
+  kind: CutoffSourceKind;
+  retrieveCutoff: (params: CutoffSourceParams) => Promise<CutoffSourceResult>;
+  /**
+   * Only implemented by sources with historical snapshots, used to backfill
+   * gaps. `from` and `to` are exclusive unix timestamps in seconds.
+   */
+  retrieveArchivedCutoffs?: (
+    params: CutoffSourceParams,
+    range: { from: number; to: number }
+  ) => Promise<ArchivedCutoffs[]>;
+};
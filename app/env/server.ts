@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { cacheProviderKinds } from "~/cache/types";
+import { cutoffSourceKinds } from "~/cutoffSources/types";
 import { clientSchema } from "~/env/client";
 
 /**
@@ -11,15 +13,48 @@ export const serverSchema = z.object({
     .enum(["development", "test", "production"])
     .default("development"),
   SECRET: z.string(),
-  UPSTASH_REDIS_REST_URL: z.string().url(),
-  UPSTASH_REDIS_REST_TOKEN: z.string(),
+  SESSION_SECRET: z.string().min(32),
+  UPSTASH_REDIS_REST_URL: z.string().url().optional(),
+  UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
+  CACHE_PROVIDER: z.enum(cacheProviderKinds).optional(),
+  CACHE_MEMORY_MAX_ENTRIES: z.coerce.number().int().positive().default(500),
+  // set by Vercel
+  VERCEL: z.string().optional(),
   FEATURE_FLAG_API_ENABLED: z
     .enum(["true", "false"])
     .default("false")
     .transform(Boolean),
+  CUTOFF_SOURCE: z.enum(cutoffSourceKinds).optional(),
+  CUTOFF_SOURCE_FIXTURE_DIR: z.string().optional(),
+  CRON_FRESHNESS_WINDOW_MINUTES: z.coerce.number().positive().default(60),
+  CRON_CONCURRENCY: z.coerce.number().int().positive().default(2),
+  CRON_SIGNATURE_TOLERANCE_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5 * 60),
+  CRON_SKIP_SIGNATURE_VERIFICATION: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
 });
 
-export const mergedSchema = serverSchema.merge(clientSchema);
+export const mergedSchema = serverSchema
+  .merge(clientSchema)
+  .refine(
+    (values) =>
+      values.CACHE_PROVIDER !== "upstash" ||
+      (values.UPSTASH_REDIS_REST_URL && values.UPSTASH_REDIS_REST_TOKEN),
+    {
+      message:
+        "CACHE_PROVIDER=upstash requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN",
+      path: ["CACHE_PROVIDER"],
+    }
+  )
+  .refine((values) => values.SESSION_SECRET !== values.SECRET, {
+    message: "SESSION_SECRET must differ from SECRET",
+    path: ["SESSION_SECRET"],
+  });
 
 const parsed = mergedSchema.safeParse(process.env);
 if (!parsed.success) {
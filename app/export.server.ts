@@ -0,0 +1,214 @@
+import { type Factions, type Regions, ScoreKinds } from "@prisma/client";
+
+import { getFactionFilter } from "~/models/history.server";
+import { prisma } from "~/prisma.server";
+import { type Dataset, type Season, titleSeries } from "~/seasons";
+
+export const exportFormats = ["csv", "ndjson"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const timestampUnits = ["ms", "s", "iso"] as const;
+export type TimestampUnit = typeof timestampUnits[number];
+
+export type ExportParams = {
+  season: Season;
+  regions: Regions[];
+  format: ExportFormat;
+  unit: TimestampUnit;
+  /**
+   * Unix timestamps in milliseconds, clamped to each region's season.
+   */
+  from: number | null;
+  to: number | null;
+  /**
+   * Only rows of this faction, which excludes cross faction rows.
+   */
+  faction: Factions | null;
+};
+
+type ExportRow = Dataset & { region: Regions };
+
+/**
+ * `to` is exclusive so consecutive windows don't overlap, except for the last
+ * one of a region, which ends at the inclusive end of the range.
+ */
+type ExportWindow = {
+  region: Regions;
+  from: number;
+  to: number;
+  isLast: boolean;
+};
+
+const oneWeekInMs = 7 * 24 * 60 * 60 * 1000;
+
+export const contentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+const csvColumns = [
+  "region",
+  "ts",
+  "score",
+  "rank",
+  "population",
+  "faction",
+] as const;
+
+const formatTimestamp = (ts: number, unit: TimestampUnit) => {
+  if (unit === "iso") {
+    return new Date(ts).toISOString();
+  }
+
+  return unit === "s" ? Math.floor(ts / 1000) : ts;
+};
+
+const formatRow = (
+  row: ExportRow,
+  format: ExportFormat,
+  unit: TimestampUnit
+): string => {
+  const formatted = { ...row, ts: formatTimestamp(row.ts, unit) };
+
+  if (format === "ndjson") {
+    return `${JSON.stringify(formatted)}\n`;
+  }
+
+  return `${csvColumns
+    .map((column) => String(formatted[column] ?? ""))
+    .join(",")}\n`;
+};
+
+/**
+ * Splits each region's season into weeks so only one week of rows is held in
+ * memory at a time.
+ */
+const createWindows = ({
+  season,
+  regions,
+  from,
+  to,
+}: ExportParams): ExportWindow[] => {
+  return regions.flatMap((region) => {
+    const start = season.startDates[region];
+
+    if (!start) {
+      return [];
+    }
+
+    const rangeStart = Math.max(start, from ?? start);
+    const rangeEnd = Math.min(
+      season.endDates[region] ?? Date.now(),
+      to ?? Number.POSITIVE_INFINITY
+    );
+
+    // a range of a single instant still gets a window, `to` being inclusive
+    const weeks =
+      rangeEnd < rangeStart
+        ? 0
+        : Math.max(1, Math.ceil((rangeEnd - rangeStart) / oneWeekInMs));
+
+    return Array.from({ length: weeks }, (_, index) => ({
+      region,
+      from: rangeStart + index * oneWeekInMs,
+      to: Math.min(rangeStart + (index + 1) * oneWeekInMs, rangeEnd),
+      isLast: index === weeks - 1,
+    }));
+  });
+};
+
+const getTimestampFilter = ({ from, to, isLast }: ExportWindow) => {
+  return isLast
+    ? { gte: Math.ceil(from / 1000), lte: Math.floor(to / 1000) }
+    : { gte: Math.ceil(from / 1000), lt: Math.ceil(to / 1000) };
+};
+
+/**
+ * Picks the rows the same way the charts do.
+ */
+const loadRows = async (
+  window: ExportWindow,
+  { season, faction }: ExportParams
+): Promise<ExportRow[]> => {
+  const rows = await prisma.history.findMany({
+    where: {
+      region: window.region,
+      percentile: titleSeries.percentile,
+      role: titleSeries.role,
+      scoreKind: ScoreKinds.custom,
+      quarantined: false,
+      score: {
+        gt: 0,
+      },
+      timestamp: getTimestampFilter(window),
+      ...getFactionFilter(season),
+      ...(faction ? { faction } : {}),
+    },
+    select: {
+      timestamp: true,
+      faction: true,
+      score: true,
+      rank: true,
+      population: true,
+    },
+    orderBy: {
+      timestamp: "asc",
+    },
+  });
+
+  return rows.map((row) => ({
+    region: window.region,
+    ts: row.timestamp * 1000,
+    score: row.score,
+    rank: row.rank > 0 ? row.rank : null,
+    population: row.population ?? undefined,
+    faction: row.faction ?? undefined,
+  }));
+};
+
+/**
+ * Streams the title series of each region in chronological order, region by
+ * region.
+ */
+export const createExportStream = (
+  params: ExportParams
+): ReadableStream<Uint8Array> => {
+  const windows = createWindows(params);
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    start(controller) {
+      if (params.format === "csv") {
+        controller.enqueue(encoder.encode(`${csvColumns.join(",")}\n`));
+      }
+    },
+    async pull(controller) {
+      const window = windows.shift();
+
+      if (!window) {
+        controller.close();
+        return;
+      }
+
+      const rows = await loadRows(window, params);
+
+      if (rows.length > 0) {
+        controller.enqueue(
+          encoder.encode(
+            rows
+              .map((row) => formatRow(row, params.format, params.unit))
+              .join("")
+          )
+        );
+      }
+    },
+  });
+};
+
+export const createExportFileName = ({
+  season,
+  regions,
+  format,
+}: ExportParams): string => {
+  return `${[season.slug, ...regions].join("-")}.${format}`;
+};
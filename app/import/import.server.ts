@@ -0,0 +1,490 @@
+import {
+  Factions,
+  type ImportBatch,
+  ImportTargets,
+  type Prisma,
+  Regions,
+  Roles,
+  ScoreKinds,
+} from "@prisma/client";
+import { z } from "zod";
+
+import { invalidateCachedSeries } from "~/load.server";
+import {
+  rebuildRollups,
+  refreshRollupsForRows,
+} from "~/models/cutoffRollup.server";
+import {
+  deleteImportBatchRows,
+  findImportBatch,
+} from "~/models/importBatch.server";
+import { findSeasonByName } from "~/models/season.server";
+import { prisma } from "~/prisma.server";
+import {
+  type CutoffSeries,
+  type Season,
+  titlePercentile,
+  titleSeries,
+} from "~/seasons";
+
+import { type ImportFormat, type ImportRecord, parseImportFile } from "./parse";
+
+/**
+ * Unix seconds, either as number or numeric string, or an ISO 8601 date.
+ */
+const timestampSchema = z
+  .union([z.number(), z.string()])
+  .transform((value) =>
+    typeof value === "number" || /^\d+$/u.test(value)
+      ? Number(value)
+      : Math.floor(Date.parse(value) / 1000)
+  )
+  .refine(
+    (timestamp) => Number.isInteger(timestamp) && timestamp > 0,
+    "expected unix seconds or an ISO 8601 date"
+  );
+
+const scoreSchema = z.coerce.number().positive();
+const rankSchema = z.coerce.number().int().nonnegative();
+
+/**
+ * Ranks of faction rows may be unknown, they are stored as 0 and not charted.
+ */
+const historyRowSchema = z
+  .object({
+    region: z.nativeEnum(Regions),
+    timestamp: timestampSchema,
+    faction: z.nativeEnum(Factions),
+    score: scoreSchema,
+    rank: rankSchema.default(0),
+    rioScore: scoreSchema.optional(),
+    rioRank: rankSchema.optional(),
+  })
+  .transform((row) => ({
+    kind: ImportTargets.history,
+    ...row,
+    rioScore: row.rioScore ?? row.score,
+    rioRank: row.rioRank ?? row.rank,
+  }));
+
+const crossFactionRowSchema = z
+  .object({
+    region: z.nativeEnum(Regions),
+    timestamp: timestampSchema,
+    score: scoreSchema,
+    rank: rankSchema,
+    percentile: z.coerce.number().positive().default(titlePercentile),
+    role: z.nativeEnum(Roles).default(titleSeries.role),
+    population: z.coerce.number().int().positive().optional(),
+  })
+  .transform((row) => ({
+    kind: ImportTargets.crossFactionHistory,
+    ...row,
+    population: row.population ?? null,
+  }));
+
+export type ImportRow = (
+  | z.infer<typeof historyRowSchema>
+  | z.infer<typeof crossFactionRowSchema>
+) & { row: number };
+
+export type ImportDuplicate = {
+  row: ImportRow;
+  /**
+   * Null if the duplicate is an earlier row of the same file.
+   */
+  existing: { timestamp: number; score: number } | null;
+};
+
+export type ImportPreview = {
+  season: Season;
+  target: ImportTargets;
+  fileName: string;
+  rows: ImportRow[];
+  duplicates: ImportDuplicate[];
+  invalid: { row: number; error: string }[];
+};
+
+const toHourBucket = (timestamp: number) => {
+  return Math.floor(timestamp / 3600);
+};
+
+/**
+ * Mirrors the hourly cron: a row duplicates an existing one of the same series
+ * within the same hour.
+ */
+const getDuplicateKey = (row: {
+  region: Regions;
+  timestamp: number;
+  faction?: Factions | null;
+  percentile?: number;
+  role?: Roles;
+}): string => {
+  return [
+    row.region,
+    toHourBucket(row.timestamp),
+    row.faction ?? "",
+    row.percentile ?? titlePercentile,
+    row.role ?? titleSeries.role,
+  ].join("~");
+};
+
+const getTargetError = (season: Season, target: ImportTargets) => {
+  if (target === "history" && season.crossFactionSupport === "complete") {
+    return `${season.name} only has cross faction history.`;
+  }
+
+  if (
+    target === "crossFactionHistory" &&
+    season.crossFactionSupport === "none"
+  ) {
+    return `${season.name} has no cross faction history.`;
+  }
+
+  return null;
+};
+
+const getRowError = (season: Season, row: ImportRow): string | null => {
+  const start = season.startDates[row.region];
+  const end = season.endDates[row.region];
+  const timestamp = row.timestamp * 1000;
+
+  if (!start) {
+    return `season has not started in ${row.region}`;
+  }
+
+  if (timestamp < start) {
+    return `before the season started in ${row.region}`;
+  }
+
+  if ((end && timestamp > end) || timestamp > Date.now()) {
+    return `after the season ended in ${row.region}`;
+  }
+
+  if (
+    row.kind === "crossFactionHistory" &&
+    !season.trackedPercentiles.includes(row.percentile)
+  ) {
+    return `percentile ${row.percentile} is not tracked this season`;
+  }
+
+  if (
+    row.kind === "crossFactionHistory" &&
+    row.role !== "all" &&
+    !season.trackedRoles.includes(row.role)
+  ) {
+    return `role ${row.role} is not tracked this season`;
+  }
+
+  return null;
+};
+
+const formatIssues = (error: z.ZodError) => {
+  return error.issues
+    .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    .join("; ");
+};
+
+const validateRecords = (
+  season: Season,
+  target: ImportTargets,
+  records: ImportRecord[]
+): Pick<ImportPreview, "invalid"> & { rows: ImportRow[] } => {
+  const schema =
+    target === "history" ? historyRowSchema : crossFactionRowSchema;
+
+  return records.reduce<Pick<ImportPreview, "invalid" | "rows">>(
+    (acc, { row, values }) => {
+      const parsed = schema.safeParse(values);
+
+      if (!parsed.success) {
+        acc.invalid.push({ row, error: formatIssues(parsed.error) });
+        return acc;
+      }
+
+      const importRow = { ...parsed.data, row };
+      const error = getRowError(season, importRow);
+
+      if (error) {
+        acc.invalid.push({ row, error });
+      } else {
+        acc.rows.push(importRow);
+      }
+
+      return acc;
+    },
+    { invalid: [], rows: [] }
+  );
+};
+
+const loadExistingByKey = async (
+  target: ImportTargets,
+  rows: ImportRow[]
+): Promise<Map<string, { timestamp: number; score: number }>> => {
+  if (rows.length === 0) {
+    return new Map();
+  }
+
+  const timestamps = rows.map((row) => row.timestamp);
+
+  const existing = await prisma.history.findMany({
+    where: {
+      region: {
+        in: [...new Set(rows.map((row) => row.region))],
+      },
+      timestamp: {
+        gte: toHourBucket(Math.min(...timestamps)) * 3600,
+        lt: (toHourBucket(Math.max(...timestamps)) + 1) * 3600,
+      },
+      scoreKind: ScoreKinds.custom,
+      faction: target === "history" ? { not: null } : null,
+    },
+    select: {
+      region: true,
+      timestamp: true,
+      faction: true,
+      percentile: true,
+      role: true,
+      score: true,
+    },
+  });
+
+  return new Map(
+    existing.map((row) => [
+      getDuplicateKey(row),
+      { timestamp: row.timestamp, score: row.score },
+    ])
+  );
+};
+
+/**
+ * Parses and validates the file without writing anything. Rows that already
+ * exist, or repeat an earlier row of the file, are reported as duplicates and
+ * won't be imported.
+ */
+export const previewImport = async ({
+  season,
+  target,
+  fileName,
+  content,
+  format,
+}: {
+  season: Season;
+  target: ImportTargets;
+  fileName: string;
+  content: string;
+  format: ImportFormat;
+}): Promise<ImportPreview> => {
+  const targetError = getTargetError(season, target);
+
+  if (targetError) {
+    throw new Error(targetError);
+  }
+
+  const { rows, invalid } = validateRecords(
+    season,
+    target,
+    parseImportFile(content, format)
+  );
+  const existingByKey = await loadExistingByKey(target, rows);
+  const seen = new Set<string>();
+
+  const preview: ImportPreview = {
+    season,
+    target,
+    fileName,
+    rows: [],
+    duplicates: [],
+    invalid,
+  };
+
+  rows.forEach((row) => {
+    const key = getDuplicateKey(row);
+    const existing = existingByKey.get(key);
+
+    if (existing || seen.has(key)) {
+      preview.duplicates.push({ row, existing: existing ?? null });
+      return;
+    }
+
+    seen.add(key);
+    preview.rows.push(row);
+  });
+
+  return preview;
+};
+
+/**
+ * Imported faction rows are added to the title series, cross faction rows to
+ * their own series, so those are the cached series to drop.
+ */
+const invalidateImportedSeries = async (
+  season: Season,
+  rows: { region: Regions; series: CutoffSeries }[]
+): Promise<void> => {
+  const unique = new Map(
+    rows.map((row) => [
+      [row.region, row.series.percentile, row.series.role].join("~"),
+      row,
+    ])
+  );
+
+  await Promise.all(
+    [...unique.values()].map(({ region, series }) =>
+      invalidateCachedSeries(season, region, series)
+    )
+  );
+};
+
+/**
+ * Only cross faction rows are rolled up.
+ */
+const refreshImportedRollups = async (
+  season: Season,
+  rows: ImportRow[]
+): Promise<void> => {
+  const rowsByRegion = rows.reduce<
+    Map<Regions, (CutoffSeries & { timestamp: number })[]>
+  >((acc, row) => {
+    if (row.kind === "crossFactionHistory") {
+      const { region, percentile, role, timestamp } = row;
+      acc.set(region, [
+        ...(acc.get(region) ?? []),
+        { percentile, role, timestamp },
+      ]);
+    }
+
+    return acc;
+  }, new Map());
+
+  await Promise.all(
+    [...rowsByRegion.entries()].map(([region, regionRows]) =>
+      refreshRollupsForRows(season, region, regionRows)
+    )
+  );
+};
+
+const toSeries = (row: ImportRow): CutoffSeries => {
+  return row.kind === "history"
+    ? titleSeries
+    : { percentile: row.percentile, role: row.role };
+};
+
+/**
+ * Faction rows are stored once per score kind.
+ */
+const toHistoryRows = (
+  row: ImportRow,
+  importBatchId: number
+): Prisma.HistoryCreateManyInput[] => {
+  const shared = {
+    region: row.region,
+    timestamp: row.timestamp,
+    source: "import",
+    importBatchId,
+  };
+
+  if (row.kind === "history") {
+    return [
+      {
+        ...shared,
+        faction: row.faction,
+        scoreKind: ScoreKinds.custom,
+        score: row.score,
+        rank: row.rank,
+      },
+      {
+        ...shared,
+        faction: row.faction,
+        scoreKind: ScoreKinds.rio,
+        score: row.rioScore,
+        rank: row.rioRank,
+      },
+    ];
+  }
+
+  return [
+    {
+      ...shared,
+      scoreKind: ScoreKinds.custom,
+      score: row.score,
+      rank: row.rank,
+      percentile: row.percentile,
+      role: row.role,
+      population: row.population,
+      hourBucket: toHourBucket(row.timestamp),
+    },
+  ];
+};
+
+/**
+ * Writes the previewed rows, tagged with a new import batch. Refuses to import
+ * files with invalid rows.
+ */
+export const commitImport = async (
+  preview: ImportPreview
+): Promise<ImportBatch> => {
+  if (preview.invalid.length > 0) {
+    throw new Error(
+      `Refusing to import ${preview.fileName} with ${preview.invalid.length} invalid rows.`
+    );
+  }
+
+  const batch = await prisma.$transaction(async (tx) => {
+    const created = await tx.importBatch.create({
+      data: {
+        createdAt: Math.floor(Date.now() / 1000),
+        season: preview.season.slug,
+        target: preview.target,
+        fileName: preview.fileName,
+        rowCount: preview.rows.length,
+      },
+    });
+
+    await tx.history.createMany({
+      data: preview.rows.flatMap((row) => toHistoryRows(row, created.id)),
+    });
+
+    return created;
+  });
+
+  await invalidateImportedSeries(
+    preview.season,
+    preview.rows.map((row) => ({ region: row.region, series: toSeries(row) }))
+  );
+  await refreshImportedRollups(preview.season, preview.rows);
+
+  return batch;
+};
+
+/**
+ * Deletes everything the batch imported and marks it as rolled back.
+ */
+export const rollbackImport = async (
+  batchId: number
+): Promise<{ batch: ImportBatch; deleted: number }> => {
+  const batch = await findImportBatch(batchId);
+
+  if (!batch) {
+    throw new Error(`Unknown import batch ${batchId}.`);
+  }
+
+  if (batch.rolledBackAt) {
+    throw new Error(`Import batch ${batchId} has already been rolled back.`);
+  }
+
+  const { deleted, series } = await deleteImportBatchRows(batch);
+  const season = await findSeasonByName(batch.season);
+
+  if (season) {
+    await invalidateImportedSeries(season, series);
+
+    if (batch.target === "crossFactionHistory") {
+      await Promise.all(
+        series.map((row) => rebuildRollups(season, row.region, row.series))
+      );
+    }
+  }
+
+  return { batch, deleted };
+};
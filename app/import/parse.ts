@@ -0,0 +1,97 @@
+export const importFormats = ["csv", "json"] as const;
+export type ImportFormat = typeof importFormats[number];
+
+/**
+ * A row of the imported file, numbered from 1 in file order (excluding the
+ * CSV header) so errors can point at it.
+ */
+export type ImportRecord = {
+  row: number;
+  values: Record<string, unknown>;
+};
+
+/**
+ * Splits a line on commas outside of double quotes. Quoted fields may contain
+ * commas and escaped quotes (`""`), but no line breaks.
+ */
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+
+    if (quoted && char === '"' && line[index + 1] === '"') {
+      field += '"';
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+
+  return fields;
+};
+
+/**
+ * Empty cells are left out so optional columns fall back to their defaults.
+ */
+const parseCsv = (content: string): ImportRecord[] => {
+  const [header, ...lines] = content
+    .split(/\r?\n/u)
+    .filter((line) => line.trim().length > 0);
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = parseCsvLine(header);
+
+  return lines.map((line, index) => {
+    const fields = parseCsvLine(line);
+
+    return {
+      row: index + 1,
+      values: Object.fromEntries(
+        columns.flatMap((column, columnIndex) => {
+          const value = fields[columnIndex] ?? "";
+          return value === "" ? [] : [[column, value]];
+        })
+      ),
+    };
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Expects an array of objects.
+ */
+const parseJson = (content: string): ImportRecord[] => {
+  const parsed: unknown = JSON.parse(content);
+
+  if (!Array.isArray(parsed)) {
+    throw new TypeError("Expected a JSON array of rows.");
+  }
+
+  return parsed.map((values: unknown, index) => ({
+    row: index + 1,
+    values: isRecord(values) ? values : {},
+  }));
+};
+
+export const parseImportFile = (
+  content: string,
+  format: ImportFormat
+): ImportRecord[] => {
+  return format === "csv" ? parseCsv(content) : parseJson(content);
+};
@@ -1,22 +1,33 @@
-import { Regions } from "@prisma/client";
-import { Redis } from "@upstash/redis";
+import { type History, Regions, ScoreKinds } from "@prisma/client";
 import { type XAxisPlotLinesOptions } from "highcharts";
 
+import { createCacheProvider } from "~/cache/index.server";
 import { env } from "~/env/server";
+import { getRollupDatasets } from "~/models/cutoffRollup.server";
+import { getFactionFilter } from "~/models/history.server";
 
 import { prisma } from "./prisma.server";
-import { type Dataset, type EnhancedSeason, type Season } from "./seasons";
+import {
+  type CutoffSeries,
+  type Dataset,
+  type EnhancedSeason,
+  type Season,
+  titleSeries,
+} from "./seasons";
 import { type Overlay, searchParamSeparator } from "./utils";
 import {
   calculateFactionDiffForWeek,
+  isNotNull,
   orderedRegionsBySize,
   overlays,
 } from "./utils";
 
 const oneWeekInMs = 7 * 24 * 60 * 60 * 1000;
 
-const getCrossFactionHistory = (
+const getHistory = (
   region: Regions,
+  season: Season,
+  { percentile, role }: CutoffSeries,
   gte: number | null,
   lte?: number
 ) => {
@@ -24,18 +35,28 @@ const getCrossFactionHistory = (
     return [];
   }
 
-  return prisma.crossFactionHistory.findMany({
+  return prisma.history.findMany({
     where: {
       region,
+      percentile,
+      role,
+      quarantined: false,
+      score: {
+        gt: 0,
+      },
       timestamp: {
         gte: Math.ceil(gte / 1000),
         lte: lte ? Math.ceil(lte / 1000) : lte,
       },
+      ...getFactionFilter(season),
     },
     select: {
       timestamp: true,
+      faction: true,
+      scoreKind: true,
       score: true,
       rank: true,
+      population: true,
     },
     orderBy: {
       timestamp: "desc",
@@ -43,132 +64,313 @@ const getCrossFactionHistory = (
   });
 };
 
-const getHistory = (region: Regions, gte: number | null, lte?: number) => {
-  if (!gte) {
-    return [];
-  }
+const seriesCache = createCacheProvider();
+
+/**
+ * How long a series is served past its expiry while it's being refreshed.
+ * Also sent as `stale-while-revalidate` so CDNs behave alike. Refreshes start
+ * on the first read after expiry, so a series nobody requests can be a day
+ * behind the hourly cron when it's next served, once.
+ */
+export const staleWhileRevalidateInSeconds = 24 * 60 * 60;
+
+const cacheLookupTimingTypes = {
+  hit: "cacheHits",
+  stale: "cacheStale",
+  miss: "cacheMisses",
+} as const;
+
+/**
+ * Counted per request and reported through `Server-Timing`, e.g.
+ * `cacheHits;desc="2"`.
+ */
+const countCacheLookup = (
+  timings: Timings,
+  outcome: keyof typeof cacheLookupTimingTypes
+) => {
+  const type = cacheLookupTimingTypes[outcome];
+  const count = Number(timings[type]?.[0]?.desc ?? 0) + 1;
 
-  return prisma.history.findMany({
-    where: {
-      region,
-      timestamp: {
-        gte: Math.ceil(gte / 1000),
-        lte: lte ? Math.ceil(lte / 1000) : lte,
-      },
-    },
-    select: {
-      timestamp: true,
-      faction: true,
-      customScore: true,
-    },
-    orderBy: {
-      timestamp: "desc",
-    },
-  });
+  timings[type] = [{ type, desc: String(count), time: 0 }];
 };
 
-const setupRedisProviders = () => {
-  const upstash = new Redis({
-    url: env.UPSTASH_REDIS_REST_URL,
-    token: env.UPSTASH_REDIS_REST_TOKEN,
-  });
+/**
+ * Loads of the same key within this process share one query while it runs.
+ */
+const inflightLoads = new Map<string, Promise<Dataset[]>>();
 
-  const persist = (data: Dataset[], key: string, expiry: number) => {
-    if (env.NODE_ENV === "development") {
-      return;
-    }
+const singleFlight = (
+  key: string,
+  load: () => Promise<Dataset[]>
+): Promise<Dataset[]> => {
+  const inflight = inflightLoads.get(key);
 
-    return upstash.set(key, data, {
-      ex: expiry,
-    });
-  };
+  if (inflight) {
+    return inflight;
+  }
 
-  const load = async (key: string): Promise<Dataset[] | null> => {
-    if (env.NODE_ENV === "development") {
-      return null;
+  const promise = (async () => {
+    try {
+      return await load();
+    } finally {
+      inflightLoads.delete(key);
     }
+  })();
 
-    return upstash.get(key);
-  };
+  inflightLoads.set(key, promise);
 
-  return {
-    persist,
-    load,
+  return promise;
+};
+
+type HistoryRow = Pick<History, "timestamp" | "score" | "rank" | "population"> &
+  Partial<Pick<History, "faction">>;
+
+/**
+ * Some imported faction rows have no rank, stored as 0.
+ */
+const toRank = (rank: number) => {
+  return rank > 0 ? rank : null;
+};
+
+const normalizeDataset = (row: HistoryRow): Dataset => {
+  const next: Dataset = {
+    ts: Number(row.timestamp) * 1000,
+    score: row.score,
+    rank: toRank(row.rank),
   };
+
+  if (row.faction) {
+    next.faction = row.faction;
+  }
+
+  if (row.population !== null) {
+    next.population = row.population;
+  }
+
+  return next;
 };
 
+/**
+ * Faction rows come in pairs of both score kinds, which are merged into one
+ * dataset. Sorted chronologically.
+ */
+const normalizeDatasets = (
+  rows: (HistoryRow & Pick<History, "scoreKind">)[]
+): Dataset[] => {
+  const getKey = (row: HistoryRow) => `${row.timestamp}~${row.faction ?? ""}`;
+  const rioByKey = new Map(
+    rows
+      .filter((row) => row.scoreKind === ScoreKinds.rio)
+      .map((row) => [getKey(row), row])
+  );
+
+  return rows
+    .filter((row) => row.scoreKind === ScoreKinds.custom)
+    .map((row) => {
+      const dataset = normalizeDataset(row);
+      const rio = rioByKey.get(getKey(row));
+
+      if (rio) {
+        dataset.rioScore = rio.score;
+        dataset.rioRank = toRank(rio.rank);
+      }
+
+      return dataset;
+    })
+    .sort((a, b) => a.ts - b.ts);
+};
+
+/**
+ * The title series keeps the plain `season~region` key it always had.
+ */
+const getSeriesKeyParts = (series: CutoffSeries): string[] => {
+  return [
+    series.percentile === titleSeries.percentile
+      ? null
+      : `p${series.percentile}`,
+    series.role === titleSeries.role ? null : series.role,
+  ].filter(isNotNull);
+};
+
+const createCacheKey = (
+  season: Season,
+  region: Regions,
+  series: CutoffSeries
+): string => {
+  return [season.slug, region, ...getSeriesKeyParts(series)].join(
+    searchParamSeparator
+  );
+};
+
+/**
+ * Failures only get logged and resolve to null, the stale series keeps being
+ * served until the next attempt.
+ */
+const refreshStaleSeries = async (
+  key: string,
+  load: () => Promise<Dataset[]>
+): Promise<Dataset[] | null> => {
+  try {
+    return await load();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`failed to refresh ${key}`, error);
+    return null;
+  }
+};
+
+/**
+ * Fresh until `determineExpirationTimestamp`, then served stale for a while.
+ */
+const persistSeries = (
+  season: Season,
+  region: Regions,
+  key: string,
+  datasets: Dataset[]
+): Promise<void> => {
+  const expiry = determineExpirationTimestamp(season, region, datasets);
+
+  return seriesCache.set(
+    key,
+    { datasets, freshUntil: Date.now() + expiry * 1000 },
+    expiry + staleWhileRevalidateInSeconds
+  );
+};
+
+export const resolutions = ["hourly", "daily", "weekly"] as const;
+export type Resolution = typeof resolutions[number];
+
+/**
+ * Rollups only exist for cross faction history, seasons with faction history
+ * are always loaded hourly.
+ */
 export const loadDataForRegion = async (
   region: Regions,
   season: Season,
-  timings: Timings
+  timings: Timings,
+  series: CutoffSeries = titleSeries,
+  resolution: Resolution = "hourly"
 ): Promise<Dataset[]> => {
   const gte = season.startDates[region];
   const lte = season.endDates[region] ?? undefined;
-  const key = [season.slug, region].join(searchParamSeparator);
-
-  const { persist, load } = setupRedisProviders();
+  const seriesKeyParts = getSeriesKeyParts(series);
+  const key = createCacheKey(season, region, series);
+  const timingSuffix = [region, ...seriesKeyParts].join("-");
+
+  if (resolution !== "hourly" && season.crossFactionSupport === "complete") {
+    return time(() => getRollupDatasets(season, region, series, resolution), {
+      type: `getRollupDatasets-${resolution}-${timingSuffix}`,
+      timings,
+    });
+  }
 
-  const cached = await time(() => load(key), {
-    type: `loadFromRedis-${region}`,
+  const cached = await time(() => seriesCache.get(key), {
+    type: `loadFromCache-${timingSuffix}`,
     timings,
   });
 
-  if (cached) {
-    return cached;
-  }
-
-  const [rawHistory, rawCrossFactionHistory] = await Promise.all([
-    time(
-      () =>
-        season.crossFactionSupport === "complete"
-          ? []
-          : getHistory(region, gte, lte),
-      { type: `getHistory-${region}`, timings }
-    ),
-    time(
-      () =>
-        season.crossFactionSupport === "none"
-          ? []
-          : getCrossFactionHistory(region, gte, lte),
-      { type: `getCrossFactionHistory-${region}`, timings }
-    ),
-  ]);
-
-  const datasets = await time(
-    () =>
-      [...rawHistory, ...rawCrossFactionHistory]
-        .map((dataset) => {
-          const next: Dataset = {
-            ts: Number(dataset.timestamp) * 1000,
-            score:
-              "customScore" in dataset ? dataset.customScore : dataset.score,
-            rank: "rank" in dataset ? dataset.rank : null,
-          };
-
-          if ("faction" in dataset) {
-            next.faction = dataset.faction;
-          }
+  // `timings` is only passed along to the load this request waits for
+  const load = (loadTimings?: Timings) =>
+    singleFlight(key, async () => {
+      const rawHistory = await time(
+        () => getHistory(region, season, series, gte, lte),
+        { type: `getHistory-${timingSuffix}`, timings: loadTimings }
+      );
+
+      const datasets = await time(() => normalizeDatasets(rawHistory), {
+        type: `normalizeDatasets-${timingSuffix}`,
+        timings: loadTimings,
+      });
 
-          return next;
-        })
-        .filter((dataset) => {
-          return dataset.score > 0;
-        })
-        .sort((a, b) => a.ts - b.ts),
-    { type: `normalizeDatasets-${region}`, timings }
-  );
+      await time(() => persistSeries(season, region, key, datasets), {
+        type: `persist-${timingSuffix}`,
+        timings: loadTimings,
+      });
 
-  await time(
-    () =>
-      persist(
-        datasets,
-        key,
-        determineExpirationTimestamp(season, region, datasets)
-      ),
-    { type: `persist-${region}`, timings }
+      return datasets;
+    });
+
+  if (!cached) {
+    countCacheLookup(timings, "miss");
+    return load(timings);
+  }
+
+  if (cached.freshUntil > Date.now()) {
+    countCacheLookup(timings, "hit");
+    return cached.datasets;
+  }
+
+  // Vercel may freeze functions once the response is sent and this Remix
+  // version has no `waitUntil` to keep them alive, so a background refresh
+  // might never finish. Server-side stale-while-revalidate is off there:
+  // expired series are reloaded before responding, just like missing ones,
+  // and only served stale if that load fails.
+  if (env.VERCEL) {
+    countCacheLookup(timings, "miss");
+    return (
+      (await refreshStaleSeries(key, () => load(timings))) ?? cached.datasets
+    );
+  }
+
+  countCacheLookup(timings, "stale");
+  void refreshStaleSeries(key, load);
+
+  return cached.datasets;
+};
+
+export type CachedSeriesRefresh = {
+  key: string;
+  action: "patched" | "invalidated" | "notCached";
+};
+
+/**
+ * Appends freshly written rows to their cached series so pages don't serve
+ * stale data until the cache expires. Should patching fail, the key is
+ * dropped instead and the next page load repopulates it.
+ */
+export const refreshCachedSeries = async (
+  season: Season,
+  region: Regions,
+  rows: (CutoffSeries & HistoryRow)[]
+): Promise<CachedSeriesRefresh[]> => {
+  return Promise.all(
+    rows.map(async (row): Promise<CachedSeriesRefresh> => {
+      const key = createCacheKey(season, region, row);
+
+      try {
+        const cached = await seriesCache.get(key);
+
+        if (!cached) {
+          return { key, action: "notCached" };
+        }
+
+        const dataset = normalizeDataset(row);
+        const datasets = [
+          ...cached.datasets.filter((existing) => existing.ts !== dataset.ts),
+          dataset,
+        ].sort((a, b) => a.ts - b.ts);
+
+        await persistSeries(season, region, key, datasets);
+
+        return { key, action: "patched" };
+      } catch {
+        await seriesCache.delete(key);
+        return { key, action: "invalidated" };
+      }
+    })
   );
+};
 
-  return datasets;
+/**
+ * Drops a cached series, e.g. after a datapoint was released from quarantine
+ * somewhere in its past.
+ */
+export const invalidateCachedSeries = async (
+  season: Season,
+  region: Regions,
+  series: CutoffSeries
+): Promise<void> => {
+  await seriesCache.delete(createCacheKey(season, region, series));
 };
 
 export const determineExpirationTimestamp = (
@@ -218,6 +420,16 @@ export const determineRegionsToDisplayFromSearchParams = (
   return maybeRegions;
 };
 
+export const determineResolutionFromSearchParams = (
+  request: Request
+): Resolution => {
+  const maybeResolution = new URL(request.url).searchParams.get("resolution");
+
+  return (
+    resolutions.find((resolution) => resolution === maybeResolution) ?? "hourly"
+  );
+};
+
 export const determineExtrapolationEnd = (request: Request): number | null => {
   const params = new URL(request.url).searchParams;
 
@@ -545,6 +757,10 @@ export const calculateXAxisPlotLines = (
     Object.entries(season.patches).forEach(([description, regionalData]) => {
       const timestamp = regionalData[region];
 
+      if (timestamp === undefined) {
+        return;
+      }
+
       lines.push({
         zIndex: 100,
         label: {
@@ -567,6 +783,10 @@ export const calculateXAxisPlotLines = (
       ([description, regionalData]) => {
         const timestamp = regionalData[region];
 
+        if (timestamp === undefined) {
+          return;
+        }
+
         lines.push({
           zIndex: 100,
           label: {
@@ -0,0 +1,97 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+
+import { type AdminUser } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+
+export type Admin = Pick<AdminUser, "id" | "name">;
+
+const keyLength = 64;
+
+/**
+ * Synchronous on purpose: logins are rare and this keeps hashing simple.
+ */
+const deriveKey = (password: string, salt: string) => {
+  return scryptSync(password, salt, keyLength);
+};
+
+const hashPassword = (password: string): string => {
+  const salt = randomBytes(16).toString("hex");
+  const key = deriveKey(password, salt);
+
+  return `${salt}:${key.toString("hex")}`;
+};
+
+const verifyPassword = (password: string, passwordHash: string): boolean => {
+  const [salt, hash] = passwordHash.split(":");
+
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = deriveKey(password, salt);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Creates the admin or replaces the password of an existing one.
+ */
+export const saveAdminUser = (
+  name: string,
+  password: string
+): Promise<Admin> => {
+  const passwordHash = hashPassword(password);
+
+  return prisma.adminUser.upsert({
+    where: {
+      name,
+    },
+    create: {
+      name,
+      passwordHash,
+      createdAt: Math.floor(Date.now() / 1000),
+    },
+    update: {
+      passwordHash,
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+};
+
+export const findAdminUser = (id: number): Promise<Admin | null> => {
+  return prisma.adminUser.findUnique({
+    where: {
+      id,
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+};
+
+export const verifyAdminLogin = async (
+  name: string,
+  password: string
+): Promise<Admin | null> => {
+  const user = await prisma.adminUser.findUnique({
+    where: {
+      name,
+    },
+  });
+
+  if (!user) {
+    // hash anyway so unknown names don't respond noticeably faster
+    hashPassword(password);
+    return null;
+  }
+
+  const valid = verifyPassword(password, user.passwordHash);
+
+  return valid ? { id: user.id, name: user.name } : null;
+};
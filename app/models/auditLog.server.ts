@@ -0,0 +1,21 @@
+import { type AuditLog } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+
+export const getAuditLogs = ({
+  season,
+  take = 50,
+}: {
+  season?: string;
+  take?: number;
+}): Promise<AuditLog[]> => {
+  return prisma.auditLog.findMany({
+    where: {
+      season,
+    },
+    orderBy: {
+      id: "desc",
+    },
+    take,
+  });
+};
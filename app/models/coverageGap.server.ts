@@ -0,0 +1,51 @@
+import { type CoverageGap, type Regions } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+
+export const getCoverageGaps = (
+  season: string,
+  region: Regions
+): Promise<CoverageGap[]> => {
+  return prisma.coverageGap.findMany({
+    where: {
+      season,
+      region,
+    },
+    orderBy: {
+      from: "asc",
+    },
+  });
+};
+
+/**
+ * Gaps are recomputed from scratch on every detection, so previously stored
+ * ones that have since been backfilled disappear. With `since`, only stored
+ * gaps ending at or after it are replaced, matching `findGaps`.
+ */
+export const replaceCoverageGaps = async (
+  season: string,
+  region: Regions,
+  gaps: Pick<CoverageGap, "from" | "to">[],
+  since?: number
+): Promise<void> => {
+  const detectedAt = Math.round(Date.now() / 1000);
+
+  await prisma.$transaction([
+    prisma.coverageGap.deleteMany({
+      where: {
+        season,
+        region,
+        to: since === undefined ? undefined : { gte: since },
+      },
+    }),
+    prisma.coverageGap.createMany({
+      data: gaps.map(({ from, to }) => ({
+        season,
+        region,
+        from,
+        to,
+        detectedAt,
+      })),
+    }),
+  ]);
+};
@@ -0,0 +1,72 @@
+import { type CronRetry, type Regions } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+
+const baseBackoffInSeconds = 5 * 60;
+const maxBackoffInSeconds = 60 * 60;
+
+const calculateBackoff = (attempts: number) => {
+  return Math.min(
+    baseBackoffInSeconds * 2 ** (attempts - 1),
+    maxBackoffInSeconds
+  );
+};
+
+export const getRetriesForSeason = (season: string): Promise<CronRetry[]> => {
+  return prisma.cronRetry.findMany({
+    where: {
+      season,
+    },
+  });
+};
+
+/**
+ * `minDelayInSeconds` defers the retry further, e.g. when rate limited.
+ */
+export const scheduleRetry = async (
+  season: string,
+  region: Regions,
+  error: string,
+  minDelayInSeconds = 0
+): Promise<CronRetry> => {
+  const existing = await prisma.cronRetry.findUnique({
+    where: {
+      season_region: { season, region },
+    },
+  });
+
+  const attempts = (existing?.attempts ?? 0) + 1;
+  const nextAttemptAt =
+    Math.round(Date.now() / 1000) +
+    Math.max(calculateBackoff(attempts), minDelayInSeconds);
+
+  return prisma.cronRetry.upsert({
+    where: {
+      season_region: { season, region },
+    },
+    create: {
+      season,
+      region,
+      attempts,
+      nextAttemptAt,
+      lastError: error,
+    },
+    update: {
+      attempts,
+      nextAttemptAt,
+      lastError: error,
+    },
+  });
+};
+
+export const clearRetry = async (
+  season: string,
+  region: Regions
+): Promise<void> => {
+  await prisma.cronRetry.deleteMany({
+    where: {
+      season,
+      region,
+    },
+  });
+};
@@ -0,0 +1,38 @@
+import { type CronRun, type Prisma, type Regions } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+import { orderedRegionsBySize } from "~/utils";
+
+export const recordCronRun = (
+  data: Prisma.CronRunCreateInput
+): Promise<CronRun> => {
+  return prisma.cronRun.create({ data });
+};
+
+export const getRecentCronRuns = async (
+  regions: Regions[] | null,
+  limit: number
+): Promise<Record<Regions, CronRun[]>> => {
+  const runsByRegion: Record<Regions, CronRun[]> = {
+    eu: [],
+    us: [],
+    kr: [],
+    tw: [],
+  };
+
+  await Promise.all(
+    (regions ?? orderedRegionsBySize).map(async (region) => {
+      runsByRegion[region] = await prisma.cronRun.findMany({
+        where: {
+          region,
+        },
+        orderBy: {
+          startedAt: "desc",
+        },
+        take: limit,
+      });
+    })
+  );
+
+  return runsByRegion;
+};
@@ -0,0 +1,249 @@
+import { type Regions } from "@prisma/client";
+
+import { crossFactionHistoryFilter } from "~/models/history.server";
+import { prisma } from "~/prisma.server";
+import { type CutoffSeries, type Dataset, type Season } from "~/seasons";
+
+export type RollupResolution = "daily" | "weekly";
+
+const oneDayInSeconds = 24 * 60 * 60;
+const oneWeekInSeconds = 7 * oneDayInSeconds;
+
+type RawRow = {
+  timestamp: number;
+  score: number;
+  rank: number;
+  population: number | null;
+};
+
+/**
+ * Expects rows sorted by timestamp.
+ */
+const aggregate = (rows: RawRow[]) => {
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  const scores = rows.map((row) => row.score);
+
+  return {
+    open: first.score,
+    close: last.score,
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    rank: last.rank,
+    population: last.population,
+    openedAt: first.timestamp,
+    closedAt: last.timestamp,
+    samples: rows.length,
+  };
+};
+
+const groupByPeriod = (
+  rows: RawRow[],
+  toPeriod: (timestamp: number) => number,
+  { first, last }: { first: number; last: number }
+): [number, RawRow[]][] => {
+  const groups = rows.reduce<Map<number, RawRow[]>>((acc, row) => {
+    const period = toPeriod(row.timestamp);
+
+    if (period >= first && period <= last) {
+      acc.set(period, [...(acc.get(period) ?? []), row]);
+    }
+
+    return acc;
+  }, new Map());
+
+  return [...groups.entries()];
+};
+
+/**
+ * Recomputes the daily and weekly rollups of every period touching
+ * `from` - `to` (unix seconds) from the raw rows, so it is safe to call after
+ * any change to them: new datapoints, backfills, imports or quarantine
+ * decisions.
+ */
+export const refreshRollups = async (
+  season: Season,
+  region: Regions,
+  series: CutoffSeries,
+  { from, to }: { from: number; to: number }
+): Promise<void> => {
+  const start = season.startDates[region];
+
+  if (!start) {
+    return;
+  }
+
+  const end = season.endDates[region];
+  const seasonStart = Math.ceil(start / 1000);
+  const seasonEnd = end ? Math.ceil(end / 1000) : Number.POSITIVE_INFINITY;
+
+  const toDay = (timestamp: number) => Math.floor(timestamp / oneDayInSeconds);
+  const toWeek = (timestamp: number) =>
+    Math.floor((timestamp - seasonStart) / oneWeekInSeconds);
+
+  const days = { first: toDay(from), last: toDay(to) };
+  const weeks = { first: Math.max(0, toWeek(from)), last: toWeek(to) };
+
+  if (weeks.last < 0) {
+    return;
+  }
+
+  const rows = await prisma.history.findMany({
+    where: {
+      ...crossFactionHistoryFilter,
+      region,
+      percentile: series.percentile,
+      role: series.role,
+      quarantined: false,
+      timestamp: {
+        gte: Math.max(
+          seasonStart,
+          Math.min(
+            days.first * oneDayInSeconds,
+            seasonStart + weeks.first * oneWeekInSeconds
+          )
+        ),
+        lt: Math.min(
+          seasonEnd + 1,
+          Math.max(
+            (days.last + 1) * oneDayInSeconds,
+            seasonStart + (weeks.last + 1) * oneWeekInSeconds
+          )
+        ),
+      },
+    },
+    select: {
+      timestamp: true,
+      score: true,
+      rank: true,
+      population: true,
+    },
+    orderBy: {
+      timestamp: "asc",
+    },
+  });
+
+  const key = {
+    season: season.slug,
+    region,
+    percentile: series.percentile,
+    role: series.role,
+  };
+
+  await prisma.$transaction([
+    prisma.dailyCutoffRollup.deleteMany({
+      where: { ...key, day: { gte: days.first, lte: days.last } },
+    }),
+    prisma.dailyCutoffRollup.createMany({
+      data: groupByPeriod(rows, toDay, days).map(([day, dayRows]) => ({
+        ...key,
+        day,
+        ...aggregate(dayRows),
+      })),
+    }),
+    prisma.weeklyCutoffRollup.deleteMany({
+      where: { ...key, week: { gte: weeks.first, lte: weeks.last } },
+    }),
+    prisma.weeklyCutoffRollup.createMany({
+      data: groupByPeriod(rows, toWeek, weeks).map(([week, weekRows]) => ({
+        ...key,
+        week,
+        ...aggregate(weekRows),
+      })),
+    }),
+  ]);
+};
+
+/**
+ * Recomputes all rollups of the season in this region.
+ */
+export const rebuildRollups = (
+  season: Season,
+  region: Regions,
+  series: CutoffSeries
+): Promise<void> => {
+  const start = season.startDates[region];
+
+  if (!start) {
+    return Promise.resolve();
+  }
+
+  const end = season.endDates[region] ?? Date.now();
+
+  return refreshRollups(season, region, series, {
+    from: Math.ceil(start / 1000),
+    to: Math.ceil(end / 1000),
+  });
+};
+
+/**
+ * Refreshes the periods touched by `rows`, once per series.
+ */
+export const refreshRollupsForRows = async (
+  season: Season,
+  region: Regions,
+  rows: (CutoffSeries & { timestamp: number })[]
+): Promise<void> => {
+  const rangesBySeries = rows.reduce<
+    Map<string, { series: CutoffSeries; from: number; to: number }>
+  >((acc, { percentile, role, timestamp }) => {
+    const key = `${percentile}~${role}`;
+    const range = acc.get(key);
+
+    acc.set(key, {
+      series: { percentile, role },
+      from: Math.min(range?.from ?? timestamp, timestamp),
+      to: Math.max(range?.to ?? timestamp, timestamp),
+    });
+
+    return acc;
+  }, new Map());
+
+  await Promise.all(
+    [...rangesBySeries.values()].map(({ series, from, to }) =>
+      refreshRollups(season, region, series, { from, to })
+    )
+  );
+};
+
+/**
+ * One dataset per period, using its closing datapoint.
+ */
+export const getRollupDatasets = async (
+  season: Season,
+  region: Regions,
+  series: CutoffSeries,
+  resolution: RollupResolution
+): Promise<Dataset[]> => {
+  const where = {
+    season: season.slug,
+    region,
+    percentile: series.percentile,
+    role: series.role,
+  };
+
+  const rollups =
+    resolution === "daily"
+      ? await prisma.dailyCutoffRollup.findMany({
+          where,
+          orderBy: { day: "asc" },
+        })
+      : await prisma.weeklyCutoffRollup.findMany({
+          where,
+          orderBy: { week: "asc" },
+        });
+
+  return rollups.map((rollup) => {
+    const dataset: Dataset = {
+      ts: rollup.closedAt * 1000,
+      score: rollup.close,
+      rank: rollup.rank,
+    };
+
+    if (rollup.population !== null) {
+      dataset.population = rollup.population;
+    }
+
+    return dataset;
+  });
+};
@@ -0,0 +1,84 @@
+import { type History, Prisma, type Regions, ScoreKinds } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+import { type Season } from "~/seasons";
+
+export type QuarantineDecision = "confirm" | "discard";
+
+/**
+ * Rows written since cross faction support, which is everything the cron,
+ * quarantine and rollups deal with.
+ */
+export const crossFactionHistoryFilter =
+  Prisma.validator<Prisma.HistoryWhereInput>()({
+    faction: null,
+    scoreKind: ScoreKinds.custom,
+  });
+
+/**
+ * Selects the faction rows, the cross faction rows or both, depending on
+ * which ones the season has.
+ */
+export const getFactionFilter = (season: Season): Prisma.HistoryWhereInput => {
+  if (season.crossFactionSupport === "complete") {
+    return { faction: null };
+  }
+
+  if (season.crossFactionSupport === "none") {
+    return { faction: { not: null } };
+  }
+
+  return {};
+};
+
+export const getQuarantinedDatapoints = (
+  regions: Regions[] | null
+): Promise<History[]> => {
+  return prisma.history.findMany({
+    where: {
+      quarantined: true,
+      region: regions ? { in: regions } : undefined,
+    },
+    orderBy: {
+      timestamp: "desc",
+    },
+  });
+};
+
+/**
+ * Confirming releases the datapoint into charts and extrapolation, discarding
+ * deletes it. Returns null if the datapoint is not quarantined (anymore).
+ */
+export const resolveQuarantinedDatapoint = async (
+  id: number,
+  decision: QuarantineDecision
+): Promise<History | null> => {
+  const datapoint = await prisma.history.findFirst({
+    where: {
+      id,
+      quarantined: true,
+    },
+  });
+
+  if (!datapoint) {
+    return null;
+  }
+
+  if (decision === "discard") {
+    return prisma.history.delete({
+      where: {
+        id,
+      },
+    });
+  }
+
+  return prisma.history.update({
+    where: {
+      id,
+    },
+    data: {
+      quarantined: false,
+      quarantineReason: null,
+    },
+  });
+};
@@ -0,0 +1,61 @@
+import { type ImportBatch, type Regions } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+import { type CutoffSeries } from "~/seasons";
+
+export const getImportBatches = (): Promise<ImportBatch[]> => {
+  return prisma.importBatch.findMany({
+    orderBy: {
+      id: "desc",
+    },
+  });
+};
+
+export const findImportBatch = (id: number): Promise<ImportBatch | null> => {
+  return prisma.importBatch.findUnique({
+    where: {
+      id,
+    },
+  });
+};
+
+/**
+ * Deletes the rows of the batch and marks it as rolled back, returning which
+ * series of which regions lost rows.
+ */
+export const deleteImportBatchRows = (
+  batch: ImportBatch
+): Promise<{
+  deleted: number;
+  series: { region: Regions; series: CutoffSeries }[];
+}> => {
+  const where = {
+    importBatchId: batch.id,
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const series = await tx.history.findMany({
+      where,
+      distinct: ["region", "percentile", "role"],
+      select: {
+        region: true,
+        percentile: true,
+        role: true,
+      },
+    });
+    const { count } = await tx.history.deleteMany({ where });
+
+    await tx.importBatch.update({
+      where: { id: batch.id },
+      data: { rolledBackAt: Math.floor(Date.now() / 1000) },
+    });
+
+    return {
+      deleted: count,
+      series: series.map(({ region, percentile, role }) => ({
+        region,
+        series: { percentile, role },
+      })),
+    };
+  });
+};
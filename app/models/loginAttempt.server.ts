@@ -0,0 +1,65 @@
+import { prisma } from "~/prisma.server";
+
+const windowInSeconds = 15 * 60;
+const maxFailuresPerName = 5;
+/**
+ * Higher than per name so admins sharing an office network don't lock each
+ * other out, low enough to stop spraying passwords over many names.
+ */
+const maxFailuresPerIp = 20;
+
+/**
+ * Whether too many logins failed recently for this name or from this IP to
+ * check another password.
+ */
+export const isLoginThrottled = async (
+  name: string,
+  ip: string
+): Promise<boolean> => {
+  const since = Math.floor(Date.now() / 1000) - windowInSeconds;
+
+  const [byName, byIp] = await Promise.all([
+    prisma.loginAttempt.count({
+      where: {
+        name,
+        createdAt: {
+          gte: since,
+        },
+      },
+    }),
+    prisma.loginAttempt.count({
+      where: {
+        ip,
+        createdAt: {
+          gte: since,
+        },
+      },
+    }),
+  ]);
+
+  return byName >= maxFailuresPerName || byIp >= maxFailuresPerIp;
+};
+
+export const recordFailedLogin = async (
+  name: string,
+  ip: string
+): Promise<void> => {
+  await prisma.loginAttempt.create({
+    data: {
+      createdAt: Math.floor(Date.now() / 1000),
+      name,
+      ip,
+    },
+  });
+};
+
+/**
+ * Forgets earlier typos of this name once its admin got in.
+ */
+export const clearFailedLogins = async (name: string): Promise<void> => {
+  await prisma.loginAttempt.deleteMany({
+    where: {
+      name,
+    },
+  });
+};
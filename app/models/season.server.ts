@@ -1,6 +1,9 @@
-import { type Regions } from "@prisma/client";
+import { Prisma, type Regions, type SeasonEventKinds } from "@prisma/client";
+import { z } from "zod";
 
-import { type Timings } from "~/load.server";
+import { Affix } from "~/affixes";
+import { cutoffSourceKinds } from "~/cutoffSources/types";
+import { type Resolution, type Timings } from "~/load.server";
 import {
   calculateExtrapolation,
   calculateXAxisPlotLines,
@@ -8,10 +11,18 @@ import {
   determineExpirationTimestamp,
   determineExtrapolationEnd,
   loadDataForRegion,
+  staleWhileRevalidateInSeconds,
   time,
 } from "~/load.server";
-import { type Season } from "~/seasons";
-import { type EnhancedSeason, hasSeasonEndedForAllRegions } from "~/seasons";
+import { getCoverageGaps } from "~/models/coverageGap.server";
+import { prisma } from "~/prisma.server";
+import { type RegionalEvent, type Season } from "~/seasons";
+import {
+  type EnhancedSeason,
+  hasSeasonEndedForAllRegions,
+  titlePercentile,
+  titleSeries,
+} from "~/seasons";
 import {
   isNotNull,
   orderedRegionsBySize,
@@ -19,15 +30,257 @@ import {
   overlays as defaultOverlays,
 } from "~/utils";
 
+const seasonInclude = Prisma.validator<Prisma.SeasonInclude>()({
+  regions: true,
+  affixRotations: {
+    orderBy: {
+      week: "asc",
+    },
+  },
+  events: {
+    orderBy: {
+      id: "asc",
+    },
+  },
+});
+
+type SeasonRecord = Prisma.SeasonGetPayload<{ include: typeof seasonInclude }>;
+
+const cutoffSourceSchema = z.enum(cutoffSourceKinds);
+const affixRotationSchema = z.array(z.nativeEnum(Affix));
+
+const createRegionalRecord = <T>(
+  fn: (region: Regions) => T
+): Record<Regions, T> => {
+  return {
+    eu: fn("eu"),
+    us: fn("us"),
+    kr: fn("kr"),
+    tw: fn("tw"),
+  };
+};
+
+const toMs = (seconds: number | null | undefined) => {
+  return typeof seconds === "number" ? seconds * 1000 : null;
+};
+
+const toConfirmedCutoff = (
+  region?: SeasonRecord["regions"][number]
+): Season["confirmedCutoffs"][Regions] => {
+  const source = region?.confirmedCutoffSource ?? null;
+
+  if (
+    typeof region?.confirmedCutoffAlliance === "number" &&
+    typeof region.confirmedCutoffHorde === "number"
+  ) {
+    return {
+      source,
+      alliance: region.confirmedCutoffAlliance,
+      horde: region.confirmedCutoffHorde,
+    };
+  }
+
+  return { source, score: region?.confirmedCutoffScore ?? 0 };
+};
+
+/**
+ * Groups events by name. Regions without a timestamp simply lack the event.
+ */
+const toRegionalEvents = (
+  events: SeasonRecord["events"],
+  kind: SeasonEventKinds
+): Record<string, RegionalEvent> => {
+  return events
+    .filter((event) => event.kind === kind)
+    .reduce<Record<string, RegionalEvent>>((acc, event) => {
+      acc[event.name] = {
+        ...acc[event.name],
+        [event.region]: event.timestamp * 1000,
+      };
+
+      return acc;
+    }, {});
+};
+
+const toSeason = (record: SeasonRecord): Season => {
+  const findRegion = (region: Regions) => {
+    return record.regions.find((dataset) => dataset.region === region);
+  };
+
+  return {
+    name: record.name,
+    slug: record.slug,
+    rioKey: record.rioKey,
+    cutoffSource: cutoffSourceSchema.parse(record.cutoffSource),
+    trackedPercentiles: record.trackedPercentiles,
+    trackedRoles: record.trackedRoles.flatMap((role) =>
+      role === "all" ? [] : [role]
+    ),
+    crossFactionSupport: record.crossFactionSupport,
+    startDates: createRegionalRecord((region) =>
+      toMs(findRegion(region)?.startsAt)
+    ),
+    endDates: createRegionalRecord((region) =>
+      toMs(findRegion(region)?.endsAt)
+    ),
+    confirmedCutoffs: createRegionalRecord((region) =>
+      toConfirmedCutoff(findRegion(region))
+    ),
+    affixes: record.affixRotations.map((rotation) =>
+      affixRotationSchema.parse(rotation.affixes)
+    ),
+    wcl:
+      record.wclZoneId === null
+        ? undefined
+        : {
+            zoneId: record.wclZoneId,
+            partition: record.wclPartition ?? undefined,
+            weekIndexToAffixSetId: record.wclWeekIndexToAffixSetId,
+          },
+    seasonIcon: record.seasonIcon,
+    dungeonHotfixes: toRegionalEvents(record.events, "dungeonHotfix"),
+    patches: toRegionalEvents(record.events, "patch"),
+    dungeons: record.dungeons,
+  };
+};
+
+/**
+ * Unannounced seasons first, then newest to oldest.
+ */
+const getSortKey = (season: Season) => {
+  const starts = Object.values(season.startDates).filter(isNotNull);
+
+  return starts.length === 0 ? Number.POSITIVE_INFINITY : Math.min(...starts);
+};
+
+const seasonsCacheTtlInMs = 60 * 1000;
+
+let seasonsCache: { seasons: Promise<Season[]>; expiresAt: number } | null =
+  null;
+
+/**
+ * Call after changing season data so it is visible immediately instead of
+ * once the cache expires.
+ */
+export const invalidateSeasonsCache = (): void => {
+  seasonsCache = null;
+};
+
+const loadSeasons = async (): Promise<Season[]> => {
+  try {
+    const records = await prisma.season.findMany({
+      include: seasonInclude,
+    });
+
+    return records.map(toSeason).sort((a, b) => getSortKey(b) - getSortKey(a));
+  } catch (error) {
+    // don't serve a failed lookup until the cache expires
+    invalidateSeasonsCache();
+    throw error;
+  }
+};
+
+/**
+ * Concurrent requests share the pending lookup instead of each querying.
+ */
+export const getSeasons = (): Promise<Season[]> => {
+  if (!seasonsCache || seasonsCache.expiresAt <= Date.now()) {
+    seasonsCache = {
+      seasons: loadSeasons(),
+      expiresAt: Date.now() + seasonsCacheTtlInMs,
+    };
+  }
+
+  return seasonsCache.seasons;
+};
+
+/**
+ * Bypasses the cache, for edits that have to start from the stored state.
+ */
+export const getStoredSeason = async (
+  slug: string
+): Promise<{ id: number; season: Season } | null> => {
+  const record = await prisma.season.findUnique({
+    where: {
+      slug,
+    },
+    include: seasonInclude,
+  });
+
+  return record ? { id: record.id, season: toSeason(record) } : null;
+};
+
+export const findSeasonByTimestamp = async (
+  timestamp = Date.now()
+): Promise<Season | null> => {
+  const seasons = await getSeasons();
+
+  const season = seasons.find(
+    (season) =>
+      Object.values(season.startDates).some(
+        (start) => start && timestamp >= start
+      ) &&
+      Object.values(season.endDates).some(
+        (end) => end === null || end > timestamp
+      )
+  );
+
+  return season ?? null;
+};
+
+export const findSeasonByName = async (
+  slug: string
+): Promise<Season | null> => {
+  if (slug === "latest") {
+    const ongoingSeason = await findSeasonByTimestamp();
+
+    if (ongoingSeason) {
+      return ongoingSeason;
+    }
+  }
+
+  const seasons = await getSeasons();
+
+  if (slug === "latest") {
+    const mostRecentlyStartedSeason = seasons.find(
+      (season) =>
+        season.startDates.us !== null && Date.now() >= season.startDates.us
+    );
+
+    if (mostRecentlyStartedSeason) {
+      return mostRecentlyStartedSeason;
+    }
+  }
+
+  const match = seasons.find((season) => {
+    return season.slug === slug;
+  });
+
+  return match ?? null;
+};
+
 const lastModified = "Last-Modified";
 const cacheControl = "Cache-Control";
 const eTag = "ETag";
 const expires = "Expires";
 
+/**
+ * The series cache serves expired series while refreshing them, so may CDNs.
+ */
+const createCacheControlHeader = (season: Season, maxAge: number): string => {
+  if (hasSeasonEndedForAllRegions(season)) {
+    const thirtyDays = 30 * 24 * 60 * 60;
+    return `public, max-age=${thirtyDays}, s-maxage=${thirtyDays}, immutable`;
+  }
+
+  return `public, max-age=${maxAge}, stale-while-revalidate=${staleWhileRevalidateInSeconds}`;
+};
+
 type GetEnhancedSeasonParams = {
   overlays: Overlay[] | null;
   request: Request;
   regions: Regions[] | null;
+  resolution?: Resolution;
   season: Season;
   timings: Timings;
 };
@@ -39,18 +292,12 @@ export const getEnhancedSeason = async ({
   overlays: pOverlays,
   request,
   regions: pRegions,
+  resolution = "hourly",
   season,
   timings,
 }: GetEnhancedSeasonParams): Promise<GetEnhancedSeasonResult> => {
   const headers: Record<string, string> = {};
 
-  if (hasSeasonEndedForAllRegions(season.slug)) {
-    const thirtyDays = 30 * 24 * 60 * 60;
-    headers[
-      cacheControl
-    ] = `public, max-age=${thirtyDays}, s-maxage=${thirtyDays}, immutable`;
-  }
-
   const extrapolationEnd = await time(
     () => determineExtrapolationEnd(request),
     { type: "determineExtrapolationEnd", timings }
@@ -69,6 +316,24 @@ export const getEnhancedSeason = async ({
       kr: [],
       tw: [],
     },
+    gapsByRegion: {
+      eu: [],
+      us: [],
+      kr: [],
+      tw: [],
+    },
+    percentileDataByRegion: {
+      eu: [],
+      us: [],
+      kr: [],
+      tw: [],
+    },
+    roleDataByRegion: {
+      eu: [],
+      us: [],
+      kr: [],
+      tw: [],
+    },
     extrapolation: {
       eu: null,
       kr: null,
@@ -93,8 +358,46 @@ export const getEnhancedSeason = async ({
 
   await Promise.all(
     Object.values(regions).map(async (region) => {
-      const data = await loadDataForRegion(region, season, timings);
+      const [data, percentileData, roleData, gaps] = await Promise.all([
+        loadDataForRegion(region, season, timings, titleSeries, resolution),
+        Promise.all(
+          season.trackedPercentiles
+            .filter((percentile) => percentile !== titlePercentile)
+            .map(async (percentile) => ({
+              percentile,
+              data: await loadDataForRegion(
+                region,
+                season,
+                timings,
+                { ...titleSeries, percentile },
+                resolution
+              ),
+            }))
+        ),
+        Promise.all(
+          season.trackedRoles.map(async (role) => ({
+            role,
+            data: await loadDataForRegion(
+              region,
+              season,
+              timings,
+              { ...titleSeries, role },
+              resolution
+            ),
+          }))
+        ),
+        time(() => getCoverageGaps(season.slug, region), {
+          type: `getCoverageGaps-${region}`,
+          timings,
+        }),
+      ]);
       enhancedSeason.dataByRegion[region] = data;
+      enhancedSeason.gapsByRegion[region] = gaps.map(({ from, to }) => ({
+        from: from * 1000,
+        to: to * 1000,
+      }));
+      enhancedSeason.percentileDataByRegion[region] = percentileData;
+      enhancedSeason.roleDataByRegion[region] = roleData;
 
       if (data.length === 0) {
         return;
@@ -157,10 +460,12 @@ export const getEnhancedSeason = async ({
   );
 
   headers[expires] = new Date(shortestExpiry * 1000 + Date.now()).toUTCString();
+  headers[cacheControl] = createCacheControlHeader(season, shortestExpiry);
   headers[eTag] = [
     season.slug,
     mostRecentDataset,
     extrapolationEnd,
+    resolution,
     ...regions,
     ...overlays,
   ]
@@ -0,0 +1,349 @@
+import {
+  Prisma,
+  type Regions,
+  Roles,
+  type SeasonEventKinds,
+} from "@prisma/client";
+import { z } from "zod";
+
+import { Affix } from "~/affixes";
+import { cutoffSourceKinds } from "~/cutoffSources/types";
+import {
+  getStoredSeason,
+  invalidateSeasonsCache,
+} from "~/models/season.server";
+import { prisma } from "~/prisma.server";
+import { type RegionalEvent, type Season } from "~/seasons";
+import { orderedRegionsBySize } from "~/utils";
+
+const createRegionalSchema = <T extends z.ZodTypeAny>(schema: T) => {
+  return z.object({
+    eu: schema,
+    us: schema,
+    kr: schema,
+    tw: schema,
+  });
+};
+
+const timestampSchema = z.number().int().positive();
+const cutoffSourceUrlSchema = z.string().url().nullable();
+const scoreSchema = z.number().nonnegative();
+
+const regionalEventSchema = createRegionalSchema(timestampSchema.optional())
+  .partial()
+  .refine(
+    (event) =>
+      Object.values(event).some((timestamp) => timestamp !== undefined),
+    "needs a timestamp for at least one region"
+  );
+
+/**
+ * Every edit is checked against this before being stored, so the site never
+ * reads a season it can't render.
+ */
+export const seasonSchema: z.ZodType<Season> = z
+  .object({
+    name: z.string().min(1),
+    slug: z.string().min(1),
+    startDates: createRegionalSchema(timestampSchema.nullable()),
+    endDates: createRegionalSchema(timestampSchema.nullable()),
+    confirmedCutoffs: createRegionalSchema(
+      z.union([
+        z.object({ source: cutoffSourceUrlSchema, score: scoreSchema }),
+        z.object({
+          source: cutoffSourceUrlSchema,
+          alliance: scoreSchema,
+          horde: scoreSchema,
+        }),
+      ])
+    ),
+    affixes: z.array(z.array(z.nativeEnum(Affix)).min(1)),
+    rioKey: z.string().min(1),
+    cutoffSource: z.enum(cutoffSourceKinds),
+    trackedPercentiles: z.array(z.number().positive().max(100)),
+    trackedRoles: z.array(
+      z.enum([Roles.tank, Roles.healer, Roles.dps] as const)
+    ),
+    crossFactionSupport: z.enum(["complete", "none", "partial"]),
+    wcl: z
+      .object({
+        zoneId: z.number().int().positive(),
+        partition: z.number().int().optional(),
+        weekIndexToAffixSetId: z.array(z.number().int().positive()),
+      })
+      .optional(),
+    seasonIcon: z.string().url(),
+    dungeonHotfixes: z.record(regionalEventSchema),
+    patches: z.record(regionalEventSchema),
+    dungeons: z.number().int().positive(),
+  })
+  .superRefine((season, ctx) => {
+    if (
+      season.wcl &&
+      season.wcl.weekIndexToAffixSetId.length > season.affixes.length
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["wcl", "weekIndexToAffixSetId"],
+        message: "maps more weeks than the affix rotation has",
+      });
+    }
+  });
+
+export type SeasonEditResult =
+  | { success: true }
+  | { success: false; error: string };
+
+type SeasonEdit = {
+  /**
+   * Describes the edit in the audit log, e.g. `confirmedCutoff:eu`.
+   */
+  action: string;
+  /**
+   * Returns an error if the edit can't be applied to this season at all.
+   */
+  precondition?: (season: Season) => string | null;
+  apply: (season: Season) => Season;
+  /**
+   * Picks the edited part of the season, logged before and after the edit.
+   */
+  select: (season: Season) => Prisma.InputJsonValue | null;
+  persist: (
+    tx: Prisma.TransactionClient,
+    seasonId: number,
+    season: Season
+  ) => Promise<unknown>;
+};
+
+const formatIssues = (error: z.ZodError) => {
+  return error.issues
+    .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    .join("; ");
+};
+
+const toJson = (value: Prisma.InputJsonValue | null) => {
+  return value === null ? Prisma.JsonNull : value;
+};
+
+const editSeason = async (
+  actor: string,
+  slug: string,
+  edit: SeasonEdit
+): Promise<SeasonEditResult> => {
+  const stored = await getStoredSeason(slug);
+
+  if (!stored) {
+    return { success: false, error: `Unknown season "${slug}".` };
+  }
+
+  const preconditionError = edit.precondition?.(stored.season) ?? null;
+
+  if (preconditionError) {
+    return { success: false, error: preconditionError };
+  }
+
+  const parsed = seasonSchema.safeParse(edit.apply(stored.season));
+
+  if (!parsed.success) {
+    return { success: false, error: formatIssues(parsed.error) };
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await edit.persist(tx, stored.id, parsed.data);
+    await tx.auditLog.create({
+      data: {
+        createdAt: Math.floor(Date.now() / 1000),
+        actor,
+        season: slug,
+        action: edit.action,
+        before: toJson(edit.select(stored.season)),
+        after: toJson(edit.select(parsed.data)),
+      },
+    });
+  });
+
+  invalidateSeasonsCache();
+
+  return { success: true };
+};
+
+export const setConfirmedCutoff = (
+  actor: string,
+  slug: string,
+  region: Regions,
+  cutoff: Season["confirmedCutoffs"][Regions]
+): Promise<SeasonEditResult> => {
+  return editSeason(actor, slug, {
+    action: `confirmedCutoff:${region}`,
+    apply: (season) => ({
+      ...season,
+      confirmedCutoffs: { ...season.confirmedCutoffs, [region]: cutoff },
+    }),
+    select: (season) => season.confirmedCutoffs[region],
+    persist: (tx, seasonId, season) => {
+      const confirmed = season.confirmedCutoffs[region];
+      const data = {
+        confirmedCutoffSource: confirmed.source,
+        confirmedCutoffScore: "score" in confirmed ? confirmed.score : null,
+        confirmedCutoffAlliance:
+          "alliance" in confirmed ? confirmed.alliance : null,
+        confirmedCutoffHorde: "horde" in confirmed ? confirmed.horde : null,
+      };
+
+      return tx.seasonRegion.upsert({
+        where: {
+          seasonId_region: {
+            seasonId,
+            region,
+          },
+        },
+        create: {
+          seasonId,
+          region,
+          ...data,
+        },
+        update: data,
+      });
+    },
+  });
+};
+
+const getEventsKey = (kind: SeasonEventKinds) => {
+  return kind === "patch" ? "patches" : "dungeonHotfixes";
+};
+
+/**
+ * Adds the event or moves an existing one of the same name. Timestamps are
+ * in milliseconds, like everywhere else on `Season`; regions without one no
+ * longer have the event.
+ */
+export const setSeasonEvent = (
+  actor: string,
+  slug: string,
+  kind: SeasonEventKinds,
+  name: string,
+  timestamps: RegionalEvent
+): Promise<SeasonEditResult> => {
+  const key = getEventsKey(kind);
+
+  return editSeason(actor, slug, {
+    action: `${kind}:${name}`,
+    apply: (season) => ({
+      ...season,
+      [key]: { ...season[key], [name]: timestamps },
+    }),
+    select: (season) => season[key][name] ?? null,
+    persist: (tx, seasonId, season) => {
+      const event = season[key][name];
+
+      return Promise.all(
+        orderedRegionsBySize.map((region) => {
+          const where = { seasonId, kind, name, region };
+          const timestamp = event[region];
+
+          if (timestamp === undefined) {
+            return tx.seasonEvent.deleteMany({ where });
+          }
+
+          return tx.seasonEvent.upsert({
+            where: {
+              seasonId_kind_name_region: where,
+            },
+            create: {
+              ...where,
+              timestamp: Math.floor(timestamp / 1000),
+            },
+            update: {
+              timestamp: Math.floor(timestamp / 1000),
+            },
+          });
+        })
+      );
+    },
+  });
+};
+
+export const removeSeasonEvent = (
+  actor: string,
+  slug: string,
+  kind: SeasonEventKinds,
+  name: string
+): Promise<SeasonEditResult> => {
+  const key = getEventsKey(kind);
+
+  return editSeason(actor, slug, {
+    action: `${kind}:${name}`,
+    precondition: (season) =>
+      name in season[key] ? null : `Unknown ${kind} "${name}".`,
+    apply: (season) => ({
+      ...season,
+      [key]: Object.fromEntries(
+        Object.entries(season[key]).filter(([eventName]) => eventName !== name)
+      ),
+    }),
+    select: (season) => season[key][name] ?? null,
+    persist: (tx, seasonId) => {
+      return tx.seasonEvent.deleteMany({
+        where: {
+          seasonId,
+          kind,
+          name,
+        },
+      });
+    },
+  });
+};
+
+export const setAffixRotation = (
+  actor: string,
+  slug: string,
+  affixes: Affix[][]
+): Promise<SeasonEditResult> => {
+  return editSeason(actor, slug, {
+    action: "affixes",
+    apply: (season) => ({ ...season, affixes }),
+    select: (season) => season.affixes,
+    persist: async (tx, seasonId, season) => {
+      await tx.seasonAffixRotation.deleteMany({
+        where: {
+          seasonId,
+        },
+      });
+
+      return tx.seasonAffixRotation.createMany({
+        data: season.affixes.map((affixes, week) => ({
+          seasonId,
+          week,
+          affixes,
+        })),
+      });
+    },
+  });
+};
+
+export const setWclWeekMapping = (
+  actor: string,
+  slug: string,
+  weekIndexToAffixSetId: number[]
+): Promise<SeasonEditResult> => {
+  return editSeason(actor, slug, {
+    action: "wcl.weekIndexToAffixSetId",
+    precondition: (season) =>
+      season.wcl ? null : "This season has no Warcraft Logs zone.",
+    apply: (season) => ({
+      ...season,
+      wcl: season.wcl ? { ...season.wcl, weekIndexToAffixSetId } : undefined,
+    }),
+    select: (season) => season.wcl?.weekIndexToAffixSetId ?? null,
+    persist: (tx, seasonId, season) => {
+      return tx.season.update({
+        where: {
+          id: seasonId,
+        },
+        data: {
+          wclWeekIndexToAffixSetId: season.wcl?.weekIndexToAffixSetId ?? [],
+        },
+      });
+    },
+  });
+};
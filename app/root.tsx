@@ -18,6 +18,8 @@ import { Analytics } from "@vercel/analytics/react";
 import { SSRProvider } from "react-aria";
 
 import { env } from "~/env/client";
+import { getSeasons } from "~/models/season.server";
+import { type SeasonMenuEntry } from "~/seasons";
 import stylesheet from "~/tailwind.css";
 
 export const links: LinksFunction = () => {
@@ -55,11 +57,21 @@ export const links: LinksFunction = () => {
   ];
 };
 
-export const loader = (): TypedResponse<{ ENV: Record<string, unknown> }> => {
+export const loader = async (): Promise<
+  TypedResponse<{ ENV: Record<string, unknown>; seasons: SeasonMenuEntry[] }>
+> => {
+  const seasons = await getSeasons();
+
   return json({
     ENV: {
       VERCEL_ANALYTICS_ID: env.VERCEL_ANALYTICS_ID,
     },
+    seasons: seasons.map(({ name, slug, seasonIcon, startDates }) => ({
+      name,
+      slug,
+      seasonIcon,
+      startDates,
+    })),
   });
 };
 
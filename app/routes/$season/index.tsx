@@ -1,4 +1,4 @@
-import { type Regions } from "@prisma/client";
+import { type Factions, type Regions } from "@prisma/client";
 import { json, type LoaderArgs, type TypedResponse } from "@remix-run/node";
 import { useLoaderData, useNavigation } from "@remix-run/react";
 import { type HeadersFunction, redirect } from "@remix-run/server-runtime";
@@ -22,10 +22,11 @@ import {
   determineOverlaysToDisplayFromSearchParams,
   determineRegionsToDisplayFromCookies,
   determineRegionsToDisplayFromSearchParams,
+  determineResolutionFromSearchParams,
   getServerTimeHeader,
 } from "~/load.server";
-import { getEnhancedSeason } from "~/models/season.server";
-import { type EnhancedSeason, findSeasonByName } from "~/seasons";
+import { findSeasonByName, getEnhancedSeason } from "~/models/season.server";
+import { type EnhancedSeason, type Gap, titlePercentile } from "~/seasons";
 import { calculateFactionDiffForWeek, searchParamSeparator } from "~/utils";
 
 const factionColors = {
@@ -34,6 +35,25 @@ const factionColors = {
   xFaction: "#B389AF",
 } as const;
 
+const factionNames = {
+  alliance: "Alliance",
+  horde: "Horde",
+} as const;
+
+const percentileColors = ["#fbbf24", "#34d399", "#a3a3a3"] as const;
+
+const roleColors = {
+  tank: "#c69b6d",
+  healer: "#4ade80",
+  dps: "#f472b6",
+} as const;
+
+const roleNames = {
+  tank: "Tank",
+  healer: "Healer",
+  dps: "DPS",
+} as const;
+
 const lastModified = "Last-Modified";
 const cacheControl = "Cache-Control";
 const eTag = "ETag";
@@ -95,7 +115,7 @@ export const loader = async ({
     });
   }
 
-  const season = findSeasonByName(params.season);
+  const season = await findSeasonByName(params.season);
 
   if (!season) {
     throw new Response(undefined, {
@@ -139,6 +159,12 @@ export const loader = async ({
       params.append("regions", cookieRegions.join(searchParamSeparator));
     }
 
+    const resolution = determineResolutionFromSearchParams(request);
+
+    if (resolution !== "hourly") {
+      params.append("resolution", resolution);
+    }
+
     return redirect(`/${season.slug}?${params.toString()}`, 307);
   }
 
@@ -151,6 +177,7 @@ export const loader = async ({
         request,
         regions,
         overlays,
+        resolution: determineResolutionFromSearchParams(request),
         season,
         timings,
       }),
@@ -343,21 +370,39 @@ function Card({ season, region }: CardProps): JSX.Element {
       plotBands: createPlotBands(season, region),
       plotLines: season.xAxisPlotLines[region],
     },
-    yAxis: {
-      title: {
-        text: "Score",
-        style: {
-          color: "#fff",
+    yAxis: [
+      {
+        title: {
+          text: "Score",
+          style: {
+            color: "#fff",
+          },
         },
+        labels: {
+          style: {
+            color: "#fff",
+            fontWeight: "normal",
+          },
+        },
+        plotLines: createFactionCutoffPlotlines(season, region),
       },
-      labels: {
-        style: {
-          color: "#fff",
-          fontWeight: "normal",
+      {
+        title: {
+          text: "Ranked Characters",
+          style: {
+            color: "#fff",
+          },
         },
+        labels: {
+          style: {
+            color: "#fff",
+            fontWeight: "normal",
+          },
+        },
+        opposite: true,
+        showEmpty: false,
       },
-      plotLines: createFactionCutoffPlotlines(season, region),
-    },
+    ],
     tooltip: {
       shared: true,
       outside: true,
@@ -522,47 +567,131 @@ function Card({ season, region }: CardProps): JSX.Element {
       <div className="h-[39vh] lg:h-[30vh]" ref={containerRef}>
         <HighchartsReact highcharts={Highcharts} options={options} ref={ref} />
       </div>
+      <CustomScoreNote season={season} />
     </section>
   );
 }
 
+/**
+ * Explains the faction score lines, which predate cross faction support.
+ */
+function CustomScoreNote({
+  season,
+}: Pick<CardProps, "season">): JSX.Element | null {
+  if (season.crossFactionSupport === "complete") {
+    return null;
+  }
+
+  return (
+    <p className="px-4 pb-4 text-sm text-gray-300">
+      Faction scores are this site&apos;s own cutoff: the score of the last
+      character within the top {titlePercentile}% of that faction&apos;s
+      leaderboard at the time of each update. Raider.io reported its own cutoff
+      and rank at the same time, which may differ; toggle the Raider.io series
+      in the legend to compare them.
+    </p>
+  );
+}
+
+/**
+ * Highcharts breaks a line at null values, so every known gap gets one instead
+ * of being drawn as a straight interpolation.
+ */
+const breakAtGaps = (
+  points: [number, number | null][],
+  gaps: Gap[]
+): [number, number | null][] => {
+  if (gaps.length === 0) {
+    return points;
+  }
+
+  return [
+    ...points,
+    ...gaps.map<[number, null]>(({ from, to }) => [(from + to) / 2, null]),
+  ].sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * The custom score is shown by default; what Raider.io reported and the ranks
+ * of both can be toggled in the legend.
+ */
+const createFactionSeries = (
+  season: EnhancedSeason,
+  region: Regions,
+  faction: Factions
+): { score: SeriesLineOptions; details: SeriesLineOptions[] } | null => {
+  if (season.crossFactionSupport === "complete") {
+    return null;
+  }
+
+  const datasets = season.dataByRegion[region].filter(
+    (dataset) => dataset.faction === faction
+  );
+  const name = factionNames[faction];
+  const color = factionColors[faction];
+
+  return {
+    score: {
+      type: "line",
+      name: `Score ${name}`,
+      color,
+      data: datasets.map((dataset) => [dataset.ts, dataset.score]),
+      dataLabels: {
+        formatter,
+      },
+    },
+    details: [
+      {
+        type: "line",
+        name: `Score ${name} Raider.io (default hidden)`,
+        color,
+        dashStyle: "ShortDot",
+        data: datasets
+          .filter((dataset) => dataset.rioScore !== undefined)
+          .map((dataset) => [dataset.ts, dataset.rioScore ?? null]),
+        dataLabels: {
+          formatter,
+        },
+        visible: false,
+      },
+      {
+        type: "line",
+        name: `Characters above Cutoff ${name} (default hidden)`,
+        color,
+        dashStyle: "LongDash",
+        data: datasets
+          .filter((dataset) => dataset.rank !== null)
+          .map((dataset) => [dataset.ts, dataset.rank]),
+        dataLabels: {
+          formatter,
+        },
+        visible: false,
+      },
+      {
+        type: "line",
+        name: `Characters above Cutoff ${name} Raider.io (default hidden)`,
+        color,
+        dashStyle: "LongDashDot",
+        data: datasets
+          .filter((dataset) => typeof dataset.rioRank === "number")
+          .map((dataset) => [dataset.ts, dataset.rioRank ?? null]),
+        dataLabels: {
+          formatter,
+        },
+        visible: false,
+      },
+    ],
+  };
+};
+
 const createSeries = (
   season: EnhancedSeason,
   region: Regions
 ): SeriesLineOptions[] => {
-  const horde: SeriesLineOptions | null =
-    season.crossFactionSupport === "complete"
-      ? null
-      : {
-          type: "line",
-          name: "Score Horde",
-          color: factionColors.horde,
-          data: season.dataByRegion[region]
-            .filter((dataset) => dataset.faction === "horde")
-            .map((dataset) => {
-              return [dataset.ts, dataset.score];
-            }),
-          dataLabels: {
-            formatter,
-          },
-        };
+  const gaps = season.gapsByRegion[region];
 
-  const alliance: SeriesLineOptions | null =
-    season.crossFactionSupport === "complete"
-      ? null
-      : {
-          type: "line",
-          name: "Score Alliance",
-          color: factionColors.alliance,
-          data: season.dataByRegion[region]
-            .filter((dataset) => dataset.faction === "alliance")
-            .map((dataset) => {
-              return [dataset.ts, dataset.score];
-            }),
-          dataLabels: {
-            formatter,
-          },
-        };
+  const horde = createFactionSeries(season, region, "horde");
+  const alliance = createFactionSeries(season, region, "alliance");
 
   const xFaction: SeriesLineOptions | null =
     season.crossFactionSupport === "none"
@@ -571,11 +700,14 @@ const createSeries = (
           type: "line",
           name: "Score X-Faction",
           color: factionColors.xFaction,
-          data: season.dataByRegion[region]
-            .filter((dataset) => !("faction" in dataset))
-            .map((dataset) => {
-              return [dataset.ts, dataset.score];
-            }),
+          data: breakAtGaps(
+            season.dataByRegion[region]
+              .filter((dataset) => !("faction" in dataset))
+              .map((dataset) => {
+                return [dataset.ts, dataset.score];
+              }),
+            gaps
+          ),
           dataLabels: {
             formatter,
           },
@@ -606,12 +738,47 @@ const createSeries = (
           visible: true,
         };
 
+  const percentiles = season.percentileDataByRegion[
+    region
+  ].map<SeriesLineOptions>(({ percentile, data }, index) => ({
+    type: "line",
+    name: `Score Top ${percentile}% (default hidden)`,
+    color: percentileColors[index % percentileColors.length],
+    data: breakAtGaps(
+      data.map((dataset) => [dataset.ts, dataset.score]),
+      gaps
+    ),
+    dataLabels: {
+      formatter,
+    },
+    visible: false,
+  }));
+
+  const roles = season.roleDataByRegion[region].map<SeriesLineOptions>(
+    ({ role, data }) => ({
+      type: "line",
+      name: `Score ${roleNames[role]} (default hidden)`,
+      color: roleColors[role],
+      data: breakAtGaps(
+        data.map((dataset) => [dataset.ts, dataset.score]),
+        gaps
+      ),
+      dataLabels: {
+        formatter,
+      },
+      visible: false,
+    })
+  );
+
   const ranks: SeriesLineOptions = {
     type: "line",
     name: "Characters above Cutoff (default hidden)",
-    data: season.dataByRegion[region]
-      .filter((dataset) => dataset.rank !== null)
-      .map((dataset) => [dataset.ts, dataset.rank]),
+    data: breakAtGaps(
+      season.dataByRegion[region]
+        .filter((dataset) => !("faction" in dataset) && dataset.rank !== null)
+        .map((dataset) => [dataset.ts, dataset.rank]),
+      gaps
+    ),
     dataLabels: {
       formatter,
     },
@@ -619,7 +786,37 @@ const createSeries = (
     visible: false,
   };
 
-  return [horde, alliance, xFaction, extrapolation, ranks].filter(
+  // participation differs by orders of magnitude from scores, so it gets its
+  // own axis
+  const population: SeriesLineOptions = {
+    type: "line",
+    name: "Ranked Characters (default hidden)",
+    data: breakAtGaps(
+      season.dataByRegion[region]
+        .filter((dataset) => dataset.population !== undefined)
+        .map((dataset) => [dataset.ts, dataset.population ?? null]),
+      gaps
+    ),
+    dataLabels: {
+      formatter,
+    },
+    color: "#94a3b8",
+    yAxis: 1,
+    visible: false,
+  };
+
+  return [
+    horde?.score,
+    alliance?.score,
+    xFaction,
+    extrapolation,
+    ...percentiles,
+    ...roles,
+    ranks,
+    ...(horde?.details ?? []),
+    ...(alliance?.details ?? []),
+    population,
+  ].filter(
     (series): series is SeriesLineOptions =>
       series?.data !== undefined && series.data.length > 0
   );
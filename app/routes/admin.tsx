@@ -0,0 +1,53 @@
+import { json, type LoaderArgs, type TypedResponse } from "@remix-run/node";
+import { Form, Link, Outlet, useLoaderData } from "@remix-run/react";
+
+import { linkClassName } from "~/components/tokens";
+import { type Admin } from "~/models/adminUser.server";
+import { requireAdmin } from "~/session.server";
+
+export const loader = async ({
+  request,
+}: LoaderArgs): Promise<TypedResponse<{ admin: Admin }>> => {
+  const admin = await requireAdmin(request);
+
+  return json(
+    { admin },
+    {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+};
+
+export default function AdminLayout(): JSX.Element {
+  const { admin } = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <header className="flex items-center justify-between bg-gray-800 px-4 py-2">
+        <nav className="flex space-x-2">
+          <Link to="/admin" className={linkClassName}>
+            Admin
+          </Link>
+          <Link to="/" className={linkClassName}>
+            Site
+          </Link>
+        </nav>
+        <Form
+          method="post"
+          action="/logout"
+          className="flex items-center space-x-2"
+        >
+          <span>{admin.name}</span>
+          <button type="submit" className={linkClassName}>
+            Log out
+          </button>
+        </Form>
+      </header>
+      <main className="container mt-4 flex max-w-screen-2xl flex-1 flex-col space-y-4 px-4 md:mx-auto 2xl:px-0">
+        <Outlet />
+      </main>
+    </>
+  );
+}
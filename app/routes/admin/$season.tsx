@@ -0,0 +1,585 @@
+import { type AuditLog, Regions, SeasonEventKinds } from "@prisma/client";
+import {
+  type ActionArgs,
+  json,
+  type LoaderArgs,
+  type SerializeFrom,
+  type TypedResponse,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import clsx from "clsx";
+import { type ReactNode } from "react";
+import { z } from "zod";
+
+import { Affix } from "~/affixes";
+import { AuditLogTable } from "~/components/AuditLogTable";
+import { inputClassName, linkClassName } from "~/components/tokens";
+import { getAuditLogs } from "~/models/auditLog.server";
+import { getStoredSeason } from "~/models/season.server";
+import {
+  removeSeasonEvent,
+  type SeasonEditResult,
+  setAffixRotation,
+  setConfirmedCutoff,
+  setSeasonEvent,
+  setWclWeekMapping,
+} from "~/models/seasonAdmin.server";
+import { type Season } from "~/seasons";
+import { requireAdmin } from "~/session.server";
+import { orderedRegionsBySize } from "~/utils";
+
+const buttonClassName = clsx(linkClassName, "justify-center");
+
+const sourceSchema = z
+  .string()
+  .trim()
+  .transform((value) => (value === "" ? null : value));
+const formScoreSchema = z.coerce.number().nonnegative();
+
+const confirmedCutoffFormSchema = z.union([
+  z.object({
+    region: z.nativeEnum(Regions),
+    source: sourceSchema,
+    score: formScoreSchema,
+  }),
+  z.object({
+    region: z.nativeEnum(Regions),
+    source: sourceSchema,
+    alliance: formScoreSchema,
+    horde: formScoreSchema,
+  }),
+]);
+
+/**
+ * `datetime-local` values carry no timezone, the form labels them as UTC.
+ */
+const dateTimeSchema = z
+  .string()
+  .transform((value) => Date.parse(`${value}Z`))
+  .refine((timestamp) => !Number.isNaN(timestamp), "invalid date");
+
+const eventKeySchema = z.object({
+  kind: z.nativeEnum(SeasonEventKinds),
+  name: z.string().trim().min(1),
+});
+
+/**
+ * Regions left blank don't get the event, e.g. for region specific hotfixes.
+ */
+const optionalDateTimeSchema = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  dateTimeSchema.optional()
+);
+
+const eventFormSchema = eventKeySchema
+  .extend({
+    eu: optionalDateTimeSchema,
+    us: optionalDateTimeSchema,
+    kr: optionalDateTimeSchema,
+    tw: optionalDateTimeSchema,
+  })
+  .refine(
+    ({ eu, us, kr, tw }) => [eu, us, kr, tw].some(Boolean),
+    "at least one region needs a date"
+  );
+
+const wclFormSchema = z.object({
+  weekIndexToAffixSetId: z
+    .string()
+    .transform((value) => value.split(/[\s,]+/u).filter(Boolean))
+    .pipe(z.array(z.coerce.number().int().positive())),
+});
+
+const intentSchema = z.enum([
+  "confirmedCutoff",
+  "event",
+  "removeEvent",
+  "affixes",
+  "wcl",
+]);
+
+type Intent = z.infer<typeof intentSchema>;
+
+const affixByName = new Map(
+  Object.entries(Affix).flatMap(([name, affix]) =>
+    typeof affix === "number" ? [[name.toLowerCase(), affix]] : []
+  )
+);
+
+/**
+ * One week per line, affixes separated by commas.
+ */
+const parseAffixRotation = (
+  value: FormDataEntryValue | null
+): Affix[][] | string => {
+  if (typeof value !== "string") {
+    return "affixes: required";
+  }
+
+  const weeks = value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) =>
+      line.split(",").map((name) => {
+        const trimmed = name.trim();
+        return { name: trimmed, affix: affixByName.get(trimmed.toLowerCase()) };
+      })
+    );
+
+  const unknown = weeks
+    .flat()
+    .filter(({ affix }) => affix === undefined)
+    .map(({ name }) => name);
+
+  if (unknown.length > 0) {
+    return `affixes: unknown affix(es) ${unknown.join(", ")}`;
+  }
+
+  return weeks.map((week) =>
+    week.flatMap(({ affix }) => (affix === undefined ? [] : [affix]))
+  );
+};
+
+const toFormError = (error: z.ZodError): SeasonEditResult => {
+  return {
+    success: false,
+    error: error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; "),
+  };
+};
+
+/**
+ * `Object.fromEntries(formData)` needs the DOM iterable typings.
+ */
+const toValues = (formData: FormData) => {
+  const values: Record<string, FormDataEntryValue> = {};
+
+  formData.forEach((value, key) => {
+    values[key] = value;
+  });
+
+  return values;
+};
+
+const handleIntent = (
+  actor: string,
+  slug: string,
+  intent: Intent,
+  formData: FormData
+): Promise<SeasonEditResult> | SeasonEditResult => {
+  const values = toValues(formData);
+
+  switch (intent) {
+    case "confirmedCutoff": {
+      const parsed = confirmedCutoffFormSchema.safeParse(values);
+
+      if (!parsed.success) {
+        return toFormError(parsed.error);
+      }
+
+      const { region, ...cutoff } = parsed.data;
+      return setConfirmedCutoff(actor, slug, region, cutoff);
+    }
+    case "event": {
+      const parsed = eventFormSchema.safeParse(values);
+
+      if (!parsed.success) {
+        return toFormError(parsed.error);
+      }
+
+      const { kind, name, ...timestamps } = parsed.data;
+      return setSeasonEvent(actor, slug, kind, name, timestamps);
+    }
+    case "removeEvent": {
+      const parsed = eventKeySchema.safeParse(values);
+
+      if (!parsed.success) {
+        return toFormError(parsed.error);
+      }
+
+      return removeSeasonEvent(actor, slug, parsed.data.kind, parsed.data.name);
+    }
+    case "affixes": {
+      const affixes = parseAffixRotation(formData.get("affixes"));
+
+      if (typeof affixes === "string") {
+        return { success: false, error: affixes };
+      }
+
+      return setAffixRotation(actor, slug, affixes);
+    }
+    case "wcl": {
+      const parsed = wclFormSchema.safeParse(values);
+
+      if (!parsed.success) {
+        return toFormError(parsed.error);
+      }
+
+      return setWclWeekMapping(actor, slug, parsed.data.weekIndexToAffixSetId);
+    }
+  }
+};
+
+export const loader = async ({
+  request,
+  params,
+}: LoaderArgs): Promise<
+  TypedResponse<{ season: Season; logs: AuditLog[] }>
+> => {
+  await requireAdmin(request);
+
+  const stored = params.season ? await getStoredSeason(params.season) : null;
+
+  if (!stored) {
+    throw new Response(undefined, {
+      status: 404,
+      statusText: "Unknown season.",
+    });
+  }
+
+  const logs = await getAuditLogs({ season: stored.season.slug });
+
+  return json(
+    { season: stored.season, logs },
+    {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+};
+
+export const action = async ({
+  request,
+  params,
+}: ActionArgs): Promise<TypedResponse<{ error: string | null }>> => {
+  const admin = await requireAdmin(request);
+
+  if (!params.season) {
+    throw new Response(undefined, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = intentSchema.safeParse(formData.get("intent"));
+
+  if (!intent.success) {
+    return json({ error: "Unknown intent." }, 400);
+  }
+
+  const result = await handleIntent(
+    admin.name,
+    params.season,
+    intent.data,
+    formData
+  );
+
+  return result.success
+    ? json({ error: null })
+    : json({ error: result.error }, 400);
+};
+
+type LoadedSeason = SerializeFrom<typeof loader>["season"];
+
+const toDateTimeValue = (timestamp: number) => {
+  return new Date(timestamp).toISOString().slice(0, 16);
+};
+
+const formatEventTimestamp = (timestamp: number | undefined) => {
+  return timestamp === undefined
+    ? "–"
+    : toDateTimeValue(timestamp).replace("T", " ");
+};
+
+type EditFormProps = {
+  intent: Intent;
+  title: string;
+  submitLabel: string;
+  children: ReactNode;
+};
+
+function EditForm({
+  intent,
+  title,
+  submitLabel,
+  children,
+}: EditFormProps): JSX.Element {
+  const fetcher = useFetcher<typeof action>();
+
+  return (
+    <fetcher.Form method="post" className="flex flex-col space-y-2">
+      <h3 className="font-bold">{title}</h3>
+      <input type="hidden" name="intent" value={intent} />
+      {children}
+      {fetcher.state === "idle" && fetcher.data ? (
+        <output
+          className={fetcher.data.error ? "text-red-400" : "text-green-400"}
+        >
+          {fetcher.data.error ?? "Saved."}
+        </output>
+      ) : null}
+      <button
+        type="submit"
+        disabled={fetcher.state !== "idle"}
+        className={buttonClassName}
+      >
+        {submitLabel}
+      </button>
+    </fetcher.Form>
+  );
+}
+
+function ConfirmedCutoffForm({
+  season,
+  region,
+}: {
+  season: LoadedSeason;
+  region: Regions;
+}): JSX.Element {
+  const cutoff = season.confirmedCutoffs[region];
+
+  return (
+    <EditForm
+      intent="confirmedCutoff"
+      title={region.toUpperCase()}
+      submitLabel="Save cutoff"
+    >
+      <input type="hidden" name="region" value={region} />
+      <label className="flex flex-col">
+        Bluepost
+        <input
+          aria-label="Bluepost"
+          name="source"
+          type="url"
+          defaultValue={cutoff.source ?? ""}
+          className={inputClassName}
+        />
+      </label>
+      {season.crossFactionSupport === "none" ? (
+        <>
+          <label className="flex flex-col">
+            Alliance
+            <input
+              aria-label="Alliance"
+              name="alliance"
+              type="number"
+              step="0.1"
+              min="0"
+              defaultValue={"alliance" in cutoff ? cutoff.alliance : 0}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col">
+            Horde
+            <input
+              aria-label="Horde"
+              name="horde"
+              type="number"
+              step="0.1"
+              min="0"
+              defaultValue={"horde" in cutoff ? cutoff.horde : 0}
+              className={inputClassName}
+            />
+          </label>
+        </>
+      ) : (
+        <label className="flex flex-col">
+          Score
+          <input
+            aria-label="Score"
+            name="score"
+            type="number"
+            step="0.1"
+            min="0"
+            defaultValue={"score" in cutoff ? cutoff.score : 0}
+            className={inputClassName}
+          />
+        </label>
+      )}
+    </EditForm>
+  );
+}
+
+function RemoveEventButton({
+  kind,
+  name,
+}: {
+  kind: SeasonEventKinds;
+  name: string;
+}): JSX.Element {
+  const fetcher = useFetcher<typeof action>();
+
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value="removeEvent" />
+      <input type="hidden" name="kind" value={kind} />
+      <input type="hidden" name="name" value={name} />
+      <button
+        type="submit"
+        disabled={fetcher.state !== "idle"}
+        className={linkClassName}
+      >
+        Remove
+      </button>
+    </fetcher.Form>
+  );
+}
+
+function EventsTable({ season }: { season: LoadedSeason }): JSX.Element {
+  const events = [
+    ...Object.entries(season.patches).map(([name, timestamps]) => ({
+      kind: SeasonEventKinds.patch,
+      name,
+      timestamps,
+    })),
+    ...Object.entries(season.dungeonHotfixes).map(([name, timestamps]) => ({
+      kind: SeasonEventKinds.dungeonHotfix,
+      name,
+      timestamps,
+    })),
+  ];
+
+  if (events.length === 0) {
+    return <p className="italic">No patches or hotfixes yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr>
+            <th className="p-1">Kind</th>
+            <th className="p-1">Name</th>
+            {orderedRegionsBySize.map((region) => (
+              <th key={region} className="p-1">
+                {region.toUpperCase()} (UTC)
+              </th>
+            ))}
+            <th className="p-1">
+              <span className="sr-only">Remove</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {events.map(({ kind, name, timestamps }) => (
+            <tr key={`${kind}-${name}`} className="border-t border-gray-700">
+              <td className="p-1">{kind}</td>
+              <td className="p-1">{name}</td>
+              {orderedRegionsBySize.map((region) => (
+                <td key={region} className="whitespace-nowrap p-1">
+                  {formatEventTimestamp(timestamps[region])}
+                </td>
+              ))}
+              <td className="p-1">
+                <RemoveEventButton kind={kind} name={name} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function AdminSeason(): JSX.Element {
+  const { season, logs } = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <h1 className="text-lg font-bold">{season.name}</h1>
+
+      <section className="rounded-lg bg-gray-700 p-4">
+        <h2 className="pb-2 text-lg font-bold">Confirmed cutoffs</h2>
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {orderedRegionsBySize.map((region) => (
+            <ConfirmedCutoffForm key={region} season={season} region={region} />
+          ))}
+        </div>
+      </section>
+
+      <section className="flex flex-col space-y-4 rounded-lg bg-gray-700 p-4">
+        <h2 className="text-lg font-bold">Patches &amp; dungeon hotfixes</h2>
+        <EventsTable season={season} />
+        <EditForm intent="event" title="Add or move" submitLabel="Save event">
+          <label className="flex flex-col">
+            Kind
+            <select aria-label="Kind" name="kind" className={inputClassName}>
+              <option value={SeasonEventKinds.patch}>Patch</option>
+              <option value={SeasonEventKinds.dungeonHotfix}>
+                Dungeon hotfix
+              </option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            Name
+            <input
+              aria-label="Name"
+              name="name"
+              required
+              className={inputClassName}
+            />
+          </label>
+          <div className="grid gap-2 md:grid-cols-4">
+            {orderedRegionsBySize.map((region) => (
+              <label key={region} className="flex flex-col">
+                {region.toUpperCase()} (UTC)
+                <input
+                  aria-label={`${region.toUpperCase()} (UTC)`}
+                  name={region}
+                  type="datetime-local"
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+        </EditForm>
+      </section>
+
+      <section className="grid gap-4 rounded-lg bg-gray-700 p-4 md:grid-cols-2">
+        <EditForm
+          intent="affixes"
+          title="Affix rotation"
+          submitLabel="Save rotation"
+        >
+          <label className="flex flex-col">
+            One week per line, affixes separated by commas
+            <textarea
+              aria-label="Affix rotation"
+              name="affixes"
+              rows={12}
+              defaultValue={season.affixes
+                .map((week) => week.map((affix) => Affix[affix]).join(", "))
+                .join("\n")}
+              className={clsx(inputClassName, "font-mono")}
+            />
+          </label>
+        </EditForm>
+        {season.wcl ? (
+          <EditForm
+            intent="wcl"
+            title="Warcraft Logs affix sets"
+            submitLabel="Save mapping"
+          >
+            <label className="flex flex-col">
+              Affix set id per week, separated by commas
+              <input
+                aria-label="Warcraft Logs affix set ids"
+                name="weekIndexToAffixSetId"
+                defaultValue={season.wcl.weekIndexToAffixSetId.join(", ")}
+                className={clsx(inputClassName, "font-mono")}
+              />
+            </label>
+          </EditForm>
+        ) : (
+          <p className="italic">This season has no Warcraft Logs zone.</p>
+        )}
+      </section>
+
+      <section className="rounded-lg bg-gray-700 p-4">
+        <h2 className="pb-2 text-lg font-bold">Edits</h2>
+        <AuditLogTable logs={logs} />
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+import { type AuditLog } from "@prisma/client";
+import { json, type LoaderArgs, type TypedResponse } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+
+import { AuditLogTable } from "~/components/AuditLogTable";
+import { linkClassName } from "~/components/tokens";
+import { getAuditLogs } from "~/models/auditLog.server";
+import { getSeasons } from "~/models/season.server";
+import { type SeasonMenuEntry } from "~/seasons";
+import { requireAdmin } from "~/session.server";
+
+export const loader = async ({
+  request,
+}: LoaderArgs): Promise<
+  TypedResponse<{
+    seasons: Pick<SeasonMenuEntry, "name" | "slug">[];
+    logs: AuditLog[];
+  }>
+> => {
+  await requireAdmin(request);
+
+  const [seasons, logs] = await Promise.all([
+    getSeasons(),
+    getAuditLogs({ take: 20 }),
+  ]);
+
+  return json(
+    {
+      seasons: seasons.map(({ name, slug }) => ({ name, slug })),
+      logs,
+    },
+    {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+};
+
+export default function AdminIndex(): JSX.Element {
+  const { seasons, logs } = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <section className="rounded-lg bg-gray-700 p-4">
+        <h1 className="pb-2 text-lg font-bold">Seasons</h1>
+        <ul className="flex flex-wrap gap-2">
+          {seasons.map((season) => (
+            <li key={season.slug}>
+              <Link
+                to={`/admin/${season.slug}`}
+                className={linkClassName.replace("bg-gray-700", "bg-gray-800")}
+              >
+                {season.name}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </section>
+      <section className="rounded-lg bg-gray-700 p-4">
+        <h2 className="pb-2 text-lg font-bold">Recent edits</h2>
+        <AuditLogTable logs={logs} showSeason />
+      </section>
+    </>
+  );
+}
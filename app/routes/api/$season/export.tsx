@@ -0,0 +1,121 @@
+import { Factions } from "@prisma/client";
+import { type LoaderArgs } from "@remix-run/node";
+import { z } from "zod";
+
+import { getRegionsWithSeasonStarted } from "~/cron/outdatedRegions.server";
+import { env } from "~/env/server";
+import {
+  contentTypes,
+  createExportFileName,
+  createExportStream,
+  exportFormats,
+  type TimestampUnit,
+  timestampUnits,
+} from "~/export.server";
+import { determineRegionsToDisplayFromSearchParams } from "~/load.server";
+import { findSeasonByName } from "~/models/season.server";
+
+const searchParamsSchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+  unit: z.enum(timestampUnits).default("ms"),
+  faction: z.nativeEnum(Factions).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+const badRequest = (statusText: string) => {
+  return new Response(undefined, {
+    status: 400,
+    statusText,
+  });
+};
+
+/**
+ * Anything but digits, e.g. a date passed without `unit=iso`, is rejected
+ * rather than read as its leading number.
+ */
+const parseUnixTimestamp = (value: string) => {
+  return /^\d+$/u.test(value) ? Number(value) : Number.NaN;
+};
+
+/**
+ * `from` and `to` are given in the same unit as the exported timestamps.
+ */
+const parseTimestamp = (
+  value: string | undefined,
+  unit: TimestampUnit
+): number | null => {
+  if (value === undefined) {
+    return null;
+  }
+
+  const timestamp =
+    unit === "iso" ? Date.parse(value) : parseUnixTimestamp(value);
+
+  if (Number.isNaN(timestamp)) {
+    throw badRequest(`Invalid timestamp "${value}", expected unit "${unit}".`);
+  }
+
+  return unit === "s" ? timestamp * 1000 : timestamp;
+};
+
+export const loader = async ({
+  params,
+  request,
+}: LoaderArgs): Promise<Response> => {
+  if (!env.FEATURE_FLAG_API_ENABLED) {
+    throw new Response(undefined, {
+      status: 501,
+      statusText: "API is not enabled.",
+    });
+  }
+
+  if (!("season" in params) || !params.season) {
+    throw badRequest("Missing params.");
+  }
+
+  const season = await findSeasonByName(params.season);
+
+  if (!season) {
+    throw badRequest("Unknown season.");
+  }
+
+  const { searchParams: rawSearchParams } = new URL(request.url);
+  const searchParams = searchParamsSchema.safeParse({
+    format: rawSearchParams.get("format") ?? undefined,
+    unit: rawSearchParams.get("unit") ?? undefined,
+    faction: rawSearchParams.get("faction") ?? undefined,
+    from: rawSearchParams.get("from") ?? undefined,
+    to: rawSearchParams.get("to") ?? undefined,
+  });
+
+  if (!searchParams.success) {
+    throw badRequest("Invalid format, unit or faction.");
+  }
+
+  const { format, unit, faction } = searchParams.data;
+  const from = parseTimestamp(searchParams.data.from, unit);
+  const to = parseTimestamp(searchParams.data.to, unit);
+
+  const exportParams = {
+    season,
+    regions:
+      determineRegionsToDisplayFromSearchParams(request) ??
+      getRegionsWithSeasonStarted(season),
+    format,
+    unit,
+    from,
+    to,
+    faction: faction ?? null,
+  };
+
+  return new Response(createExportStream(exportParams), {
+    headers: {
+      "Content-Type": contentTypes[format],
+      "Content-Disposition": `attachment; filename="${createExportFileName(
+        exportParams
+      )}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
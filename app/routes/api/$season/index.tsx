@@ -5,10 +5,10 @@ import { env } from "~/env/server";
 import {
   determineOverlaysToDisplayFromSearchParams,
   determineRegionsToDisplayFromSearchParams,
+  determineResolutionFromSearchParams,
 } from "~/load.server";
-import { getEnhancedSeason } from "~/models/season.server";
+import { findSeasonByName, getEnhancedSeason } from "~/models/season.server";
 import { type EnhancedSeason } from "~/seasons";
-import { findSeasonByName } from "~/seasons";
 
 export const loader = async ({
   params,
@@ -28,7 +28,7 @@ export const loader = async ({
     });
   }
 
-  const season = findSeasonByName(params.season);
+  const season = await findSeasonByName(params.season);
 
   if (!season) {
     throw new Response(undefined, {
@@ -44,6 +44,7 @@ export const loader = async ({
     request,
     regions,
     overlays,
+    resolution: determineResolutionFromSearchParams(request),
     season,
     timings: {},
   });
@@ -0,0 +1,35 @@
+import { type CronRun, type Regions } from "@prisma/client";
+import { json, type LoaderArgs, type TypedResponse } from "@remix-run/node";
+
+import { env } from "~/env/server";
+import { determineRegionsToDisplayFromSearchParams } from "~/load.server";
+import { getRecentCronRuns } from "~/models/cronRun.server";
+
+const defaultLimit = 24;
+const maxLimit = 200;
+
+export const loader = async ({
+  request,
+}: LoaderArgs): Promise<TypedResponse<Record<Regions, CronRun[]>>> => {
+  if (!env.FEATURE_FLAG_API_ENABLED) {
+    throw new Response(undefined, {
+      status: 501,
+      statusText: "API is not enabled.",
+    });
+  }
+
+  const maybeLimit = Number.parseInt(
+    new URL(request.url).searchParams.get("limit") ?? ""
+  );
+  const limit = Number.isNaN(maybeLimit)
+    ? defaultLimit
+    : Math.min(Math.max(maybeLimit, 1), maxLimit);
+
+  const regions = determineRegionsToDisplayFromSearchParams(request);
+
+  return json(await getRecentCronRuns(regions, limit), {
+    headers: {
+      "Cache-Control": "no-store",
+    },
+  });
+};
@@ -0,0 +1,102 @@
+/* eslint-disable no-console */
+import { type History } from "@prisma/client";
+import {
+  type ActionArgs,
+  json,
+  type LoaderArgs,
+  type TypedResponse,
+} from "@remix-run/node";
+import { z } from "zod";
+
+import { verifyCronSignature } from "~/cron/signature.server";
+import { env } from "~/env/server";
+import {
+  determineRegionsToDisplayFromSearchParams,
+  invalidateCachedSeries,
+} from "~/load.server";
+import { refreshRollupsForRows } from "~/models/cutoffRollup.server";
+import {
+  getQuarantinedDatapoints,
+  resolveQuarantinedDatapoint,
+} from "~/models/history.server";
+import { findSeasonByTimestamp } from "~/models/season.server";
+
+const decisionSchema = z.object({
+  id: z.number().int().positive(),
+  decision: z.enum(["confirm", "discard"]),
+});
+
+const parseDecision = (body: string) => {
+  try {
+    return decisionSchema.safeParse(JSON.parse(body));
+  } catch {
+    return null;
+  }
+};
+
+export const loader = async ({
+  request,
+}: LoaderArgs): Promise<TypedResponse<History[]>> => {
+  if (!env.FEATURE_FLAG_API_ENABLED) {
+    throw new Response(undefined, {
+      status: 501,
+      statusText: "API is not enabled.",
+    });
+  }
+
+  const regions = determineRegionsToDisplayFromSearchParams(request);
+
+  return json(await getQuarantinedDatapoints(regions), {
+    headers: {
+      "Cache-Control": "no-store",
+    },
+  });
+};
+
+/**
+ * Confirms or discards a quarantined datapoint. Requests are signed just like
+ * cron requests.
+ */
+export const action = async ({
+  request,
+}: ActionArgs): Promise<TypedResponse> => {
+  if (request.method !== "POST") {
+    return json([], 405);
+  }
+
+  const body = await request.text();
+
+  const verification = verifyCronSignature({
+    secret: env.SECRET,
+    headers: request.headers,
+    body,
+    toleranceInSeconds: env.CRON_SIGNATURE_TOLERANCE_SECONDS,
+  });
+
+  if (!verification.valid) {
+    console.warn(`Rejecting quarantine request: ${verification.reason}.`);
+    return json({ error: "invalid signature" }, 401);
+  }
+
+  const parsed = parseDecision(body);
+
+  if (!parsed?.success) {
+    return json({ error: "expected { id, decision }" }, 400);
+  }
+
+  const { id, decision } = parsed.data;
+  const datapoint = await resolveQuarantinedDatapoint(id, decision);
+
+  if (!datapoint) {
+    return json({ error: "datapoint not quarantined" }, 404);
+  }
+
+  const season = await findSeasonByTimestamp(datapoint.timestamp * 1000);
+
+  if (season && decision === "confirm") {
+    await invalidateCachedSeries(season, datapoint.region, datapoint);
+    await refreshRollupsForRows(season, datapoint.region, [datapoint]);
+  }
+
+  return json({ id, decision });
+};
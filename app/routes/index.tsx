@@ -6,11 +6,11 @@ import {
   determineOverlaysToDisplayFromCookies,
   determineRegionsToDisplayFromCookies,
 } from "~/load.server";
-import { findSeasonByName } from "~/seasons";
+import { findSeasonByName } from "~/models/season.server";
 import { searchParamSeparator } from "~/utils";
 
-export const loader: LoaderFunction = ({ request }) => {
-  const latest = findSeasonByName("latest");
+export const loader: LoaderFunction = async ({ request }) => {
+  const latest = await findSeasonByName("latest");
 
   if (!latest) {
     throw new Error("Couldn't determine latest season.");
@@ -0,0 +1,139 @@
+import {
+  type ActionArgs,
+  json,
+  type LoaderArgs,
+  redirect,
+  type TypedResponse,
+} from "@remix-run/node";
+import {
+  Form,
+  useActionData,
+  useNavigation,
+  useSearchParams,
+} from "@remix-run/react";
+import clsx from "clsx";
+
+import { inputClassName, linkClassName } from "~/components/tokens";
+import { verifyAdminLogin } from "~/models/adminUser.server";
+import {
+  clearFailedLogins,
+  isLoginThrottled,
+  recordFailedLogin,
+} from "~/models/loginAttempt.server";
+import {
+  createAdminSession,
+  getAdmin,
+  getSafeRedirectTo,
+} from "~/session.server";
+
+export const loader = async ({
+  request,
+}: LoaderArgs): Promise<TypedResponse<null>> => {
+  const admin = await getAdmin(request);
+
+  if (admin) {
+    const redirectTo = new URL(request.url).searchParams.get("redirectTo");
+
+    return redirect(getSafeRedirectTo(redirectTo));
+  }
+
+  return json(null);
+};
+
+/**
+ * The first hop of `X-Forwarded-For` is the client as seen by the proxy in
+ * front of the app, e.g. Vercel's edge.
+ */
+const getClientIp = (request: Request) => {
+  const forwardedFor = request.headers.get("X-Forwarded-For");
+
+  return forwardedFor?.split(",")[0]?.trim() || "unknown";
+};
+
+export const action = async ({
+  request,
+}: ActionArgs): Promise<TypedResponse<{ error: string }>> => {
+  const formData = await request.formData();
+  const name = formData.get("name");
+  const password = formData.get("password");
+
+  if (typeof name !== "string" || typeof password !== "string") {
+    return json({ error: "Name and password are required." }, 400);
+  }
+
+  const ip = getClientIp(request);
+
+  if (await isLoginThrottled(name, ip)) {
+    return json(
+      { error: "Too many failed attempts, try again in a few minutes." },
+      429
+    );
+  }
+
+  const admin = await verifyAdminLogin(name, password);
+
+  if (!admin) {
+    await recordFailedLogin(name, ip);
+    return json({ error: "Invalid name or password." }, 400);
+  }
+
+  await clearFailedLogins(name);
+
+  return createAdminSession(
+    request,
+    admin,
+    getSafeRedirectTo(formData.get("redirectTo"))
+  );
+};
+
+export default function Login(): JSX.Element {
+  const actionData = useActionData<typeof action>();
+  const [searchParams] = useSearchParams();
+  const { state } = useNavigation();
+
+  return (
+    <main className="container mt-4 flex max-w-sm flex-1 flex-col space-y-4 px-4 md:mx-auto">
+      <h1 className="text-lg font-bold">Admin Login</h1>
+      <Form method="post" className="flex flex-col space-y-2">
+        <input
+          type="hidden"
+          name="redirectTo"
+          value={searchParams.get("redirectTo") ?? "/admin"}
+        />
+        <label htmlFor="name" id="name-label">
+          Name
+        </label>
+        <input
+          id="name"
+          aria-labelledby="name-label"
+          name="name"
+          autoComplete="username"
+          required
+          className={inputClassName}
+        />
+        <label htmlFor="password" id="password-label">
+          Password
+        </label>
+        <input
+          id="password"
+          aria-labelledby="password-label"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          required
+          className={inputClassName}
+        />
+        {actionData?.error ? (
+          <p className="text-red-400">{actionData.error}</p>
+        ) : null}
+        <button
+          type="submit"
+          disabled={state !== "idle"}
+          className={clsx(linkClassName, "justify-center")}
+        >
+          Log in
+        </button>
+      </Form>
+    </main>
+  );
+}
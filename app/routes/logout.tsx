@@ -0,0 +1,11 @@
+import { type ActionArgs, redirect } from "@remix-run/node";
+
+import { destroyAdminSession } from "~/session.server";
+
+export const loader = (): Response => {
+  return redirect("/");
+};
+
+export const action = ({ request }: ActionArgs): Promise<Response> => {
+  return destroyAdminSession(request);
+};
@@ -0,0 +1,104 @@
+import { createCookieSessionStorage, redirect } from "@remix-run/node";
+
+import { env } from "~/env/server";
+import { type Admin, findAdminUser } from "~/models/adminUser.server";
+
+const sessionStorage = createCookieSessionStorage({
+  cookie: {
+    name: "__admin",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    secrets: [env.SESSION_SECRET],
+    secure: env.NODE_ENV === "production",
+    maxAge: 7 * 24 * 60 * 60,
+  },
+});
+
+const adminIdKey = "adminId";
+
+const getSession = (request: Request) => {
+  return sessionStorage.getSession(request.headers.get("Cookie"));
+};
+
+const fallbackRedirectTo = "/admin";
+const redirectBase = "http://localhost";
+
+/**
+ * Only allows paths on this site, falling back to `/admin`. Browsers read
+ * `/\evil.com` like `//evil.com`, so backslashes are rejected too, and the
+ * value has to resolve to the same origin as a plain path would.
+ */
+export const getSafeRedirectTo = (value: FormDataEntryValue | null): string => {
+  if (
+    typeof value !== "string" ||
+    !value.startsWith("/") ||
+    value.startsWith("//") ||
+    value.includes("\\")
+  ) {
+    return fallbackRedirectTo;
+  }
+
+  const url = new URL(value, redirectBase);
+
+  if (url.origin !== redirectBase) {
+    return fallbackRedirectTo;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
+/**
+ * Looks the admin up on every request so deleted admins are signed out
+ * immediately.
+ */
+export const getAdmin = async (request: Request): Promise<Admin | null> => {
+  const session = await getSession(request);
+  const adminId: unknown = session.get(adminIdKey);
+
+  if (typeof adminId !== "number") {
+    return null;
+  }
+
+  return findAdminUser(adminId);
+};
+
+export const requireAdmin = async (request: Request): Promise<Admin> => {
+  const admin = await getAdmin(request);
+
+  if (!admin) {
+    const { pathname, search } = new URL(request.url);
+    const params = new URLSearchParams({ redirectTo: `${pathname}${search}` });
+
+    throw redirect(`/login?${params.toString()}`);
+  }
+
+  return admin;
+};
+
+export const createAdminSession = async (
+  request: Request,
+  admin: Admin,
+  redirectTo: string
+): Promise<Response> => {
+  const session = await getSession(request);
+  session.set(adminIdKey, admin.id);
+
+  return redirect(redirectTo, {
+    headers: {
+      "Set-Cookie": await sessionStorage.commitSession(session),
+    },
+  });
+};
+
+export const destroyAdminSession = async (
+  request: Request
+): Promise<Response> => {
+  const session = await getSession(request);
+
+  return redirect("/", {
+    headers: {
+      "Set-Cookie": await sessionStorage.destroySession(session),
+    },
+  });
+};
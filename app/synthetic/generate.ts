@@ -0,0 +1,306 @@
+import {
+  type Factions,
+  type Prisma,
+  type Regions,
+  type Roles,
+  ScoreKinds,
+} from "@prisma/client";
+
+import {
+  type CutoffSeries,
+  getTrackedSeries,
+  type Season,
+  titlePercentile,
+} from "~/seasons";
+
+export const syntheticSource = "synthetic";
+
+export type SyntheticOptions = {
+  /**
+   * Same seed, same data.
+   */
+  seed: number;
+  /**
+   * Title cutoff at the end of the season, or after 36 weeks if its end is
+   * unknown.
+   */
+  target: number;
+  /**
+   * Weeks until the cutoff covered about two thirds of its growth.
+   */
+  growthWeeks: number;
+  /**
+   * Standard deviation of the hourly noise, in score points.
+   */
+  noise: number;
+  /**
+   * Outages of 4 to 12 hours without any datapoints.
+   */
+  gaps: number;
+  /**
+   * How far the horde cutoff is ahead of the alliance one, in score points.
+   */
+  factionSplit: number;
+  /**
+   * Seasons with partial cross faction support switch to cross faction rows
+   * after this many weeks.
+   */
+  crossFactionWeek: number;
+  /**
+   * Unix timestamp in milliseconds to stop at, e.g. to reproduce an early
+   * state of an ongoing season. Never later than now.
+   */
+  until: number | null;
+};
+
+export const defaultSyntheticOptions: SyntheticOptions = {
+  seed: 1,
+  target: 3300,
+  growthWeeks: 4,
+  noise: 2,
+  gaps: 2,
+  factionSplit: 20,
+  crossFactionWeek: 4,
+  until: null,
+};
+
+const oneHourInMs = 60 * 60 * 1000;
+const oneWeekInMs = 7 * 24 * oneHourInMs;
+const defaultSeasonLengthInWeeks = 36;
+
+/**
+ * Share of the final cutoff reached within the first hour.
+ */
+const initialShare = 0.45;
+
+const regionPopulations: Record<Regions, number> = {
+  eu: 350_000,
+  us: 400_000,
+  tw: 20_000,
+  kr: 30_000,
+};
+
+const roleShares: Record<Exclude<Roles, "all">, number> = {
+  tank: 0.2,
+  healer: 0.2,
+  dps: 0.6,
+};
+
+const roleScoreFactors: Record<Exclude<Roles, "all">, number> = {
+  tank: 1.01,
+  healer: 0.995,
+  dps: 0.99,
+};
+
+const factionShares: Record<Factions, number> = {
+  horde: 0.55,
+  alliance: 0.45,
+};
+
+/**
+ * Raider.io's figure trails the custom one by a few hours.
+ */
+const rioLagInMs = 3 * oneHourInMs;
+
+/**
+ * Park-Miller, deterministic per seed and good enough for plausible noise.
+ */
+const createRandom = (seed: number) => {
+  let state = (Math.abs(Math.floor(seed)) % 2_147_483_646) + 1;
+
+  return () => {
+    state = (state * 16_807) % 2_147_483_647;
+    return (state - 1) / 2_147_483_646;
+  };
+};
+
+const createGaussian = (random: () => number) => {
+  return () =>
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+};
+
+type Curve = {
+  score: (ts: number, series: CutoffSeries) => number;
+  rank: (ts: number, series: CutoffSeries) => number;
+  population: (ts: number, series: CutoffSeries) => number;
+};
+
+const createCurve = (
+  season: Season,
+  region: Regions,
+  start: number,
+  { target, growthWeeks }: SyntheticOptions
+): Curve => {
+  const end = season.endDates[region];
+  const totalWeeks = end
+    ? (end - start) / oneWeekInMs
+    : defaultSeasonLengthInWeeks;
+  const normalization = 1 - Math.exp(-totalWeeks / growthWeeks);
+
+  // most of each week's growth happens right after the reset
+  const progress = (ts: number) => {
+    const elapsedWeeks = Math.max(ts - start, 0) / oneWeekInMs;
+    const week = Math.floor(elapsedWeeks);
+    const shaped = week + Math.sqrt(elapsedWeeks - week);
+
+    return (1 - Math.exp(-shaped / growthWeeks)) / normalization;
+  };
+
+  const population = (ts: number, { role }: CutoffSeries) => {
+    const elapsedWeeks = Math.max(ts - start, 0) / oneWeekInMs;
+    const share = role === "all" ? 1 : roleShares[role];
+
+    return Math.round(
+      regionPopulations[region] * share * (1 - Math.exp(-(elapsedWeeks + 0.1)))
+    );
+  };
+
+  return {
+    score: (ts, { percentile, role }) => {
+      const title = target * (initialShare + (1 - initialShare) * progress(ts));
+      const percentileFactor =
+        1 - 0.09 * Math.log10(percentile / titlePercentile);
+      const roleFactor = role === "all" ? 1 : roleScoreFactors[role];
+
+      return title * percentileFactor * roleFactor;
+    },
+    rank: (ts, series) =>
+      Math.max(
+        Math.round((population(ts, series) * series.percentile) / 100),
+        1
+      ),
+    population,
+  };
+};
+
+const createGapFilter = (
+  hours: number[],
+  { gaps }: SyntheticOptions,
+  random: () => number
+) => {
+  const ranges = Array.from({ length: gaps }, () => {
+    const from = hours[Math.floor(random() * hours.length)] ?? 0;
+    const length = 4 + Math.floor(random() * 9);
+
+    return { from, to: from + length * oneHourInMs };
+  });
+
+  return (ts: number) => !ranges.some(({ from, to }) => ts >= from && ts < to);
+};
+
+const roundScore = (score: number) => {
+  return Math.round(score * 10) / 10;
+};
+
+const createCrossFactionRows = (
+  region: Regions,
+  ts: number,
+  trackedSeries: CutoffSeries[],
+  curve: Curve,
+  noise: () => number
+): Prisma.HistoryCreateManyInput[] => {
+  const timestamp = Math.round(ts / 1000);
+
+  return trackedSeries.map((series) => ({
+    region,
+    timestamp,
+    hourBucket: Math.floor(timestamp / 3600),
+    scoreKind: ScoreKinds.custom,
+    score: roundScore(curve.score(ts, series) + noise()),
+    rank: curve.rank(ts, series),
+    percentile: series.percentile,
+    role: series.role,
+    population: curve.population(ts, series),
+    source: syntheticSource,
+  }));
+};
+
+/**
+ * Both score kinds of both factions, title series only.
+ */
+const createFactionRows = (
+  region: Regions,
+  ts: number,
+  curve: Curve,
+  noise: () => number,
+  { factionSplit }: SyntheticOptions
+): Prisma.HistoryCreateManyInput[] => {
+  const timestamp = Math.round(ts / 1000);
+  const offsets: Record<Factions, number> = {
+    horde: factionSplit / 2,
+    alliance: -factionSplit / 2,
+  };
+
+  return (["horde", "alliance"] as const).flatMap((faction) =>
+    (
+      [
+        [ScoreKinds.custom, ts],
+        [ScoreKinds.rio, ts - rioLagInMs],
+      ] as const
+    ).map(([scoreKind, at]) => ({
+      region,
+      timestamp,
+      faction,
+      scoreKind,
+      score: roundScore(
+        curve.score(at, { percentile: titlePercentile, role: "all" }) +
+          offsets[faction] +
+          noise()
+      ),
+      rank: Math.max(
+        Math.round(
+          curve.rank(at, { percentile: titlePercentile, role: "all" }) *
+            factionShares[faction]
+        ),
+        1
+      ),
+      source: syntheticSource,
+    }))
+  );
+};
+
+/**
+ * Hourly rows of every tracked series of the season in this region, from its
+ * start until it ended, `until` or now, whichever comes first.
+ */
+export const generateSyntheticHistory = (
+  season: Season,
+  region: Regions,
+  options: SyntheticOptions
+): Prisma.HistoryCreateManyInput[] => {
+  const start = season.startDates[region];
+
+  if (!start) {
+    return [];
+  }
+
+  const end = Math.min(
+    season.endDates[region] ?? Number.POSITIVE_INFINITY,
+    options.until ?? Number.POSITIVE_INFINITY,
+    Date.now()
+  );
+  const firstHour = Math.ceil(start / oneHourInMs) * oneHourInMs;
+  const hours = Array.from(
+    { length: Math.max(Math.floor((end - firstHour) / oneHourInMs) + 1, 0) },
+    (_, index) => firstHour + index * oneHourInMs
+  );
+
+  const random = createRandom(options.seed);
+  const gaussian = createGaussian(random);
+  const noise = () => gaussian() * options.noise;
+  const curve = createCurve(season, region, start, options);
+  const isCovered = createGapFilter(hours, options, random);
+  const crossFactionFrom =
+    season.crossFactionSupport === "partial"
+      ? start + options.crossFactionWeek * oneWeekInMs
+      : start;
+  const trackedSeries = getTrackedSeries(season);
+
+  return hours.filter(isCovered).flatMap((ts) => {
+    if (season.crossFactionSupport === "none" || ts < crossFactionFrom) {
+      return createFactionRows(region, ts, curve, noise, options);
+    }
+
+    return createCrossFactionRows(region, ts, trackedSeries, curve, noise);
+  });
+};
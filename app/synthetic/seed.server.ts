@@ -0,0 +1,78 @@
+import { type Regions } from "@prisma/client";
+
+import { defaultGapThresholdMinutes, findGaps } from "~/cron/gaps.server";
+import { env } from "~/env/server";
+import { invalidateCachedSeries } from "~/load.server";
+import { replaceCoverageGaps } from "~/models/coverageGap.server";
+import { rebuildRollups } from "~/models/cutoffRollup.server";
+import { prisma } from "~/prisma.server";
+import { getTrackedSeries, type Season } from "~/seasons";
+
+import {
+  generateSyntheticHistory,
+  type SyntheticOptions,
+  syntheticSource,
+} from "./generate";
+
+export type SeedReport = {
+  region: Regions;
+  deleted: number;
+  created: number;
+  gaps: number;
+};
+
+/**
+ * Replaces previously seeded rows of the season in this region, leaving real
+ * ones alone, and brings gaps, rollups and the cache up to date so the charts
+ * look as they would with scraped data.
+ */
+export const seedSyntheticHistory = async (
+  season: Season,
+  region: Regions,
+  options: SyntheticOptions
+): Promise<SeedReport> => {
+  if (env.NODE_ENV === "production") {
+    throw new Error("Refusing to seed synthetic history in production.");
+  }
+
+  const start = season.startDates[region];
+
+  if (!start) {
+    return { region, deleted: 0, created: 0, gaps: 0 };
+  }
+
+  const end = season.endDates[region];
+
+  const { count: deleted } = await prisma.history.deleteMany({
+    where: {
+      region,
+      source: syntheticSource,
+      timestamp: {
+        gte: Math.ceil(start / 1000),
+        lte: end ? Math.ceil(end / 1000) : undefined,
+      },
+    },
+  });
+
+  const { count: created } = await prisma.history.createMany({
+    data: generateSyntheticHistory(season, region, options),
+    skipDuplicates: true,
+  });
+
+  const gaps = await findGaps(season, region, defaultGapThresholdMinutes);
+  await replaceCoverageGaps(season.slug, region, gaps);
+
+  const trackedSeries = getTrackedSeries(season);
+
+  await Promise.all(
+    trackedSeries.map(async (series) => {
+      if (season.crossFactionSupport === "complete") {
+        await rebuildRollups(season, region, series);
+      }
+
+      await invalidateCachedSeries(season, region, series);
+    })
+  );
+
+  return { region, deleted, created, gaps: gaps.length };
+};
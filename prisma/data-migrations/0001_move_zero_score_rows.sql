@@ -0,0 +1,41 @@
+-- Moves the zero-score sentinel rows the cron used to write on failed scrapes
+-- out of "History" and records them as failed cron runs instead. Faction rows
+-- were never written that way and are left alone.
+--
+-- Run after 0003_unify_history.sql and `yarn prisma:push`, which creates the
+-- "CronRun" table:
+--   yarn prisma:execute prisma/data-migrations/0001_move_zero_score_rows.sql
+
+BEGIN;
+
+INSERT INTO "CronRun" (
+  "startedAt",
+  "finishedAt",
+  "season",
+  "region",
+  "source",
+  "rank",
+  "outcome",
+  "error"
+)
+SELECT
+  "timestamp",
+  "timestamp",
+  CASE
+    WHEN "timestamp" >= 1683644400 THEN 'df-season-2'
+    WHEN "timestamp" >= 1670943600 THEN 'df-season-1'
+    WHEN "timestamp" >= 1659452400 THEN 'sl-season-4'
+    ELSE 'sl-season-3'
+  END,
+  "region",
+  'raiderIoHtml',
+  NULLIF("rank", 0),
+  'failure',
+  'Migrated zero-score sentinel row.'
+FROM "History"
+WHERE "faction" IS NULL
+  AND "score" <= 0;
+
+DELETE FROM "History" WHERE "faction" IS NULL AND "score" <= 0;
+
+COMMIT;
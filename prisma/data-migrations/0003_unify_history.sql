@@ -0,0 +1,110 @@
+-- Merges "History" and "CrossFactionHistory" into a single "History" table.
+-- Cross faction rows keep their ids, every faction row becomes two rows, one
+-- per score kind.
+--
+-- Works on any schema since the baseline: columns added to either table in
+-- the meantime are created first if missing. Duplicate cross faction
+-- datapoints within the same hour are collapsed onto the earliest row and
+-- "hourBucket" is backfilled, which used to be 0002_backfill_hour_buckets.sql.
+-- Zero-score sentinel rows are left out of both and moved by
+-- 0001_move_zero_score_rows.sql afterwards.
+--
+-- Run BEFORE `yarn prisma:push`, which would otherwise drop
+-- "CrossFactionHistory" along with its rows:
+--   yarn prisma:execute prisma/data-migrations/0003_unify_history.sql
+--   yarn prisma:push
+--   yarn prisma:execute prisma/data-migrations/0001_move_zero_score_rows.sql
+
+BEGIN;
+
+CREATE TYPE "ScoreKinds" AS ENUM ('custom', 'rio');
+
+DO $$
+BEGIN
+  CREATE TYPE "Roles" AS ENUM ('all', 'tank', 'healer', 'dps');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "History"
+  ADD COLUMN IF NOT EXISTS "importBatchId" INTEGER;
+
+ALTER TABLE "CrossFactionHistory"
+  ADD COLUMN IF NOT EXISTS "percentile" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+  ADD COLUMN IF NOT EXISTS "role" "Roles" NOT NULL DEFAULT 'all',
+  ADD COLUMN IF NOT EXISTS "population" INTEGER,
+  ADD COLUMN IF NOT EXISTS "quarantined" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS "quarantineReason" TEXT,
+  ADD COLUMN IF NOT EXISTS "hourBucket" INTEGER,
+  ADD COLUMN IF NOT EXISTS "importBatchId" INTEGER;
+
+DELETE FROM "CrossFactionHistory" AS duplicate
+USING "CrossFactionHistory" AS original
+WHERE duplicate."region" = original."region"
+  AND duplicate."percentile" = original."percentile"
+  AND duplicate."role" = original."role"
+  AND duplicate."timestamp" / 3600 = original."timestamp" / 3600
+  AND duplicate."id" > original."id"
+  AND duplicate."score" > 0
+  AND original."score" > 0;
+
+UPDATE "CrossFactionHistory"
+SET "hourBucket" = "timestamp" / 3600
+WHERE "hourBucket" IS NULL
+  AND "score" > 0;
+
+ALTER TABLE "History" RENAME TO "LegacyHistory";
+ALTER TABLE "LegacyHistory" RENAME CONSTRAINT "History_pkey" TO "LegacyHistory_pkey";
+ALTER TABLE "LegacyHistory" DROP CONSTRAINT IF EXISTS "History_importBatchId_fkey";
+ALTER SEQUENCE "History_id_seq" RENAME TO "LegacyHistory_id_seq";
+
+ALTER TABLE "CrossFactionHistory" RENAME TO "History";
+ALTER TABLE "History" RENAME CONSTRAINT "CrossFactionHistory_pkey" TO "History_pkey";
+ALTER SEQUENCE "CrossFactionHistory_id_seq" RENAME TO "History_id_seq";
+
+ALTER TABLE "History"
+  ADD COLUMN "faction" "Factions",
+  ADD COLUMN "scoreKind" "ScoreKinds" NOT NULL DEFAULT 'custom',
+  ADD COLUMN "source" TEXT NOT NULL DEFAULT 'legacy';
+
+UPDATE "History" SET "source" = 'import' WHERE "importBatchId" IS NOT NULL;
+
+INSERT INTO "History" (
+  "timestamp",
+  "region",
+  "faction",
+  "scoreKind",
+  "score",
+  "rank",
+  "source",
+  "importBatchId"
+)
+SELECT
+  "timestamp",
+  "region",
+  "faction",
+  'custom',
+  "customScore",
+  "customRank",
+  CASE WHEN "importBatchId" IS NULL THEN 'legacy' ELSE 'import' END,
+  "importBatchId"
+FROM "LegacyHistory"
+UNION ALL
+SELECT
+  "timestamp",
+  "region",
+  "faction",
+  'rio',
+  "rioScore",
+  "rioRank",
+  CASE WHEN "importBatchId" IS NULL THEN 'legacy' ELSE 'import' END,
+  "importBatchId"
+FROM "LegacyHistory";
+
+ALTER TABLE "History"
+  ALTER COLUMN "scoreKind" DROP DEFAULT,
+  ALTER COLUMN "source" DROP DEFAULT;
+
+DROP TABLE "LegacyHistory";
+
+COMMIT;
@@ -0,0 +1,111 @@
+/* eslint-disable no-console */
+import { type Prisma, Regions, type SeasonEventKinds } from "@prisma/client";
+
+import { prisma } from "~/prisma.server";
+import { type RegionalEvent, type Season } from "~/seasons";
+
+import { seasons } from "./seasons";
+
+const toSeconds = (ms: number | null) => {
+  return ms === null ? null : Math.round(ms / 1000);
+};
+
+const toEvents = (
+  events: Record<string, RegionalEvent>,
+  kind: SeasonEventKinds
+): Prisma.SeasonEventCreateWithoutSeasonInput[] => {
+  return Object.entries(events).flatMap(([name, timestamps]) =>
+    Object.values(Regions).flatMap((region) => {
+      const timestamp = timestamps[region];
+
+      return timestamp === undefined
+        ? []
+        : [{ kind, name, region, timestamp: Math.round(timestamp / 1000) }];
+    })
+  );
+};
+
+const toSeasonCreateInput = (season: Season): Prisma.SeasonCreateInput => {
+  return {
+    slug: season.slug,
+    name: season.name,
+    rioKey: season.rioKey,
+    cutoffSource: season.cutoffSource,
+    crossFactionSupport: season.crossFactionSupport,
+    trackedPercentiles: season.trackedPercentiles,
+    trackedRoles: season.trackedRoles,
+    seasonIcon: season.seasonIcon,
+    dungeons: season.dungeons,
+    wclZoneId: season.wcl?.zoneId ?? null,
+    wclPartition: season.wcl?.partition ?? null,
+    wclWeekIndexToAffixSetId: season.wcl?.weekIndexToAffixSetId ?? [],
+    regions: {
+      create: Object.values(Regions).map((region) => {
+        const cutoff = season.confirmedCutoffs[region];
+
+        return {
+          region,
+          startsAt: toSeconds(season.startDates[region]),
+          endsAt: toSeconds(season.endDates[region]),
+          confirmedCutoffSource: cutoff.source,
+          confirmedCutoffScore: "score" in cutoff ? cutoff.score : null,
+          confirmedCutoffAlliance:
+            "alliance" in cutoff ? cutoff.alliance : null,
+          confirmedCutoffHorde: "horde" in cutoff ? cutoff.horde : null,
+        };
+      }),
+    },
+    affixRotations: {
+      create: season.affixes.map((affixes, week) => ({ week, affixes })),
+    },
+    events: {
+      create: [
+        ...toEvents(season.patches, "patch"),
+        ...toEvents(season.dungeonHotfixes, "dungeonHotfix"),
+      ],
+    },
+  };
+};
+
+/**
+ * Only creates seasons missing from the database, so data maintained there
+ * is never overwritten by this file.
+ */
+const seed = async () => {
+  const existing = await prisma.season.findMany({
+    select: {
+      slug: true,
+    },
+  });
+
+  const missing = seasons.filter(
+    (season) => !existing.some(({ slug }) => slug === season.slug)
+  );
+
+  await Promise.all(
+    missing.map((season) =>
+      prisma.season.create({
+        data: toSeasonCreateInput(season),
+      })
+    )
+  );
+
+  console.info(
+    `Seeded ${missing.length} seasons, skipped ${
+      seasons.length - missing.length
+    } existing.`
+  );
+};
+
+const run = async () => {
+  try {
+    await seed();
+  } catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+};
+
+void run();
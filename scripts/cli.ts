@@ -0,0 +1,103 @@
+/* eslint-disable no-console */
+import { Regions } from "@prisma/client";
+
+import { getRegionsWithSeasonStarted } from "~/cron/outdatedRegions.server";
+import {
+  getCutoffSource,
+  getCutoffSourceForSeason,
+} from "~/cutoffSources/index.server";
+import { type CutoffSource, cutoffSourceKinds } from "~/cutoffSources/types";
+import { findSeasonByName } from "~/models/season.server";
+import { prisma } from "~/prisma.server";
+import { type Season } from "~/seasons";
+
+export const regionOptionDescription = `${Object.keys(Regions).join(
+  ", "
+)}; repeatable, defaults to all started regions`;
+
+export const sourceOptionDescription = `${cutoffSourceKinds.join(
+  ", "
+)}; defaults to the season's source`;
+
+const isRegion = (value: string): value is Regions => {
+  return value in Regions;
+};
+
+const isCutoffSourceKind = (
+  value: string
+): value is typeof cutoffSourceKinds[number] => {
+  return cutoffSourceKinds.some((kind) => kind === value);
+};
+
+export const resolveSeason = async (slug = "latest"): Promise<Season> => {
+  const season = await findSeasonByName(slug);
+
+  if (!season) {
+    throw new Error(`Unknown season "${slug}".`);
+  }
+
+  return season;
+};
+
+export const resolveSource = (season: Season, kind?: string): CutoffSource => {
+  if (!kind) {
+    return getCutoffSourceForSeason(season);
+  }
+
+  if (!isCutoffSourceKind(kind)) {
+    throw new Error(`Unknown source "${kind}".`);
+  }
+
+  return getCutoffSource(kind);
+};
+
+export const resolveRegions = (
+  season: Season,
+  regions?: string[]
+): Regions[] => {
+  if (!regions) {
+    return getRegionsWithSeasonStarted(season);
+  }
+
+  const unknown = regions.filter((region) => !isRegion(region));
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown region(s): ${unknown.join(", ")}.`);
+  }
+
+  return regions.filter(isRegion);
+};
+
+/**
+ * Runs regions one after another so logs stay readable, returning the number
+ * of failed regions.
+ */
+export const processRegions = async (
+  regions: Regions[],
+  run: (region: Regions) => Promise<void>
+): Promise<number> => {
+  const [region, ...rest] = regions;
+
+  if (!region) {
+    return 0;
+  }
+
+  try {
+    await run(region);
+    return await processRegions(rest, run);
+  } catch (error) {
+    console.error(`${region}: failed`, error);
+    return 1 + (await processRegions(rest, run));
+  }
+};
+
+export const runCli = async (main: () => Promise<void>): Promise<void> => {
+  try {
+    await main();
+  } catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+};
@@ -0,0 +1,71 @@
+/* eslint-disable no-console */
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+
+import { saveAdminUser } from "~/models/adminUser.server";
+
+import { runCli } from "./cli";
+
+const usage = `Usage: yarn admin:create --name <name>
+
+Creates an admin for /admin, or sets a new password if the admin exists. The
+password is read from stdin.
+
+Options:
+  --name <name>  login name
+  --help         show this message`;
+
+const minPasswordLength = 12;
+
+const parseCliArgs = () => {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  return values;
+};
+
+const readPassword = async () => {
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  try {
+    return await readline.question("Password: ");
+  } finally {
+    readline.close();
+  }
+};
+
+const main = async () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  const name = args.name?.trim();
+
+  if (!name) {
+    throw new Error(`--name is required.\n\n${usage}`);
+  }
+
+  const password = await readPassword();
+
+  if (password.length < minPasswordLength) {
+    throw new Error(
+      `Passwords must be at least ${minPasswordLength} characters long.`
+    );
+  }
+
+  const admin = await saveAdminUser(name, password);
+
+  console.info(`Saved admin "${admin.name}".`);
+};
+
+void runCli(main);
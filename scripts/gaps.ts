@@ -0,0 +1,107 @@
+/* eslint-disable no-console */
+import { parseArgs } from "node:util";
+
+import {
+  defaultGapThresholdMinutes,
+  detectGaps,
+  type GapReport,
+} from "~/cron/gaps.server";
+
+import {
+  processRegions,
+  regionOptionDescription,
+  resolveRegions,
+  resolveSeason,
+  resolveSource,
+  runCli,
+  sourceOptionDescription,
+} from "./cli";
+
+const usage = `Usage: yarn gaps [options]
+
+Reports stretches without datapoints. With --write, gaps are backfilled from
+archived snapshots where the source has any, and the remaining ones are stored
+so the chart draws them as breaks.
+
+Options:
+  --season <slug>        season slug, defaults to "latest"
+  --region <region>      ${regionOptionDescription}
+  --source <kind>        ${sourceOptionDescription}
+  --threshold <minutes>  minimum gap length, defaults to ${defaultGapThresholdMinutes}
+  --write                backfill and store gaps
+  --help                 show this message`;
+
+const parseCliArgs = () => {
+  const { values } = parseArgs({
+    options: {
+      season: { type: "string", default: "latest" },
+      region: { type: "string", multiple: true },
+      source: { type: "string" },
+      threshold: {
+        type: "string",
+        default: String(defaultGapThresholdMinutes),
+      },
+      write: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  return values;
+};
+
+const formatTimestamp = (timestamp: number) => {
+  return new Date(timestamp * 1000).toISOString();
+};
+
+const printReport = ({ region, gaps, backfilled }: GapReport) => {
+  console.info(
+    `${region}: ${gaps.length} gaps${
+      backfilled > 0 ? `, backfilled ${backfilled} datapoints` : ""
+    }`
+  );
+
+  gaps.forEach(({ from, to }) => {
+    const hours = ((to - from) / 3600).toFixed(1);
+    console.info(
+      `  ${formatTimestamp(from)} - ${formatTimestamp(to)} (${hours}h)`
+    );
+  });
+};
+
+const main = async () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  const threshold = args.threshold ?? "";
+  const thresholdMinutes = Number.parseInt(threshold);
+
+  if (Number.isNaN(thresholdMinutes) || thresholdMinutes <= 0) {
+    throw new Error(`Invalid threshold "${threshold}".`);
+  }
+
+  const season = await resolveSeason(args.season);
+  const source = resolveSource(season, args.source);
+  const regions = resolveRegions(season, args.region);
+
+  const failures = await processRegions(regions, async (region) => {
+    printReport(
+      await detectGaps({
+        season,
+        region,
+        source,
+        thresholdMinutes,
+        write: args.write ?? false,
+      })
+    );
+  });
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+};
+
+void runCli(main);
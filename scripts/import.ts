@@ -0,0 +1,212 @@
+/* eslint-disable no-console */
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { parseArgs } from "node:util";
+
+import { ImportTargets } from "@prisma/client";
+
+import {
+  commitImport,
+  type ImportPreview,
+  type ImportRow,
+  previewImport,
+  rollbackImport,
+} from "~/import/import.server";
+import { type ImportFormat, importFormats } from "~/import/parse";
+import { getImportBatches } from "~/models/importBatch.server";
+
+import { resolveSeason, runCli } from "./cli";
+
+const targets = Object.keys(ImportTargets).join(", ");
+
+const usage = `Usage: yarn import --season <slug> --target <target> --file <path> [--write]
+       yarn import --list
+       yarn import --rollback <batch id>
+
+Imports historical cutoffs from CSV (with a header row) or a JSON array of
+objects. Without --write, only a preview of new, duplicate and invalid rows is
+printed.
+
+history columns:             region, timestamp, faction, score,
+                             rank?, rioScore?, rioRank?
+crossFactionHistory columns: region, timestamp, score, rank,
+                             percentile?, role?, population?
+
+Timestamps are unix seconds or ISO 8601 dates.
+
+Options:
+  --season <slug>     season slug
+  --target <target>   ${targets}
+  --file <path>       file to import
+  --format <format>   ${importFormats.join(
+    ", "
+  )}; defaults to the file extension
+  --write             import the previewed rows as a new batch
+  --list              list import batches
+  --rollback <id>     delete all rows of an import batch
+  --help              show this message`;
+
+const parseCliArgs = () => {
+  const { values } = parseArgs({
+    options: {
+      season: { type: "string" },
+      target: { type: "string" },
+      file: { type: "string" },
+      format: { type: "string" },
+      write: { type: "boolean", default: false },
+      list: { type: "boolean", default: false },
+      rollback: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  return values;
+};
+
+const isTarget = (value: string): value is ImportTargets => {
+  return value in ImportTargets;
+};
+
+const isFormat = (value: string): value is ImportFormat => {
+  return importFormats.some((format) => format === value);
+};
+
+const resolveFormat = (file: string, format?: string): ImportFormat => {
+  const value = format ?? extname(file).slice(1).toLowerCase();
+
+  if (!isFormat(value)) {
+    throw new Error(`Unknown format "${value}", pass --format.`);
+  }
+
+  return value;
+};
+
+const formatTimestamp = (timestamp: number) => {
+  return new Date(timestamp * 1000).toISOString();
+};
+
+const toTableRow = ({ row, region, timestamp, score, rank }: ImportRow) => {
+  return { row, region, time: formatTimestamp(timestamp), score, rank };
+};
+
+const printPreview = ({
+  fileName,
+  season,
+  target,
+  rows,
+  duplicates,
+  invalid,
+}: ImportPreview) => {
+  console.info(
+    `${fileName} into ${target} of ${season.slug}: ${rows.length} new, ${duplicates.length} duplicates, ${invalid.length} invalid`
+  );
+
+  if (rows.length > 0) {
+    console.info("\nNew rows:");
+    console.table(rows.map(toTableRow));
+  }
+
+  if (duplicates.length > 0) {
+    console.info("\nDuplicates, skipped:");
+    console.table(
+      duplicates.map(({ row, existing }) => ({
+        ...toTableRow(row),
+        existing: existing
+          ? `${existing.score} at ${formatTimestamp(existing.timestamp)}`
+          : "earlier row of this file",
+      }))
+    );
+  }
+
+  if (invalid.length > 0) {
+    console.info("\nInvalid rows:");
+    invalid.forEach(({ row, error }) => {
+      console.info(`  row ${row}: ${error}`);
+    });
+  }
+};
+
+const listBatches = async () => {
+  const batches = await getImportBatches();
+
+  console.table(
+    batches.map(({ createdAt, rolledBackAt, ...batch }) => ({
+      ...batch,
+      createdAt: formatTimestamp(createdAt),
+      rolledBackAt: rolledBackAt ? formatTimestamp(rolledBackAt) : null,
+    }))
+  );
+};
+
+const rollback = async (value: string) => {
+  const batchId = Number.parseInt(value);
+
+  if (Number.isNaN(batchId)) {
+    throw new TypeError(`Invalid batch id "${value}".`);
+  }
+
+  const { batch, deleted } = await rollbackImport(batchId);
+
+  console.info(
+    `Rolled back batch ${batch.id} (${batch.fileName}), deleted ${deleted} rows.`
+  );
+};
+
+const importFile = async (args: ReturnType<typeof parseCliArgs>) => {
+  if (!args.season || !args.target || !args.file) {
+    throw new Error(`--season, --target and --file are required.\n\n${usage}`);
+  }
+
+  if (!isTarget(args.target)) {
+    throw new Error(`Unknown target "${args.target}".`);
+  }
+
+  const preview = await previewImport({
+    season: await resolveSeason(args.season),
+    target: args.target,
+    fileName: basename(args.file),
+    content: await readFile(args.file, "utf8"),
+    format: resolveFormat(args.file, args.format),
+  });
+
+  printPreview(preview);
+
+  if (!args.write) {
+    console.info("\nRun again with --write to import the new rows.");
+    return;
+  }
+
+  if (preview.rows.length === 0) {
+    console.info("\nNothing to import.");
+    return;
+  }
+
+  const batch = await commitImport(preview);
+
+  console.info(
+    `\nImported ${batch.rowCount} rows as batch ${batch.id}. Undo with: yarn import --rollback ${batch.id}`
+  );
+};
+
+const main = async () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  if (args.list) {
+    await listBatches();
+    return;
+  }
+
+  if (args.rollback) {
+    await rollback(args.rollback);
+    return;
+  }
+
+  await importFile(args);
+};
+
+void runCli(main);
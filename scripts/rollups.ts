@@ -0,0 +1,67 @@
+/* eslint-disable no-console */
+import { parseArgs } from "node:util";
+
+import { rebuildRollups } from "~/models/cutoffRollup.server";
+import { getTrackedSeries } from "~/seasons";
+
+import {
+  processRegions,
+  regionOptionDescription,
+  resolveRegions,
+  resolveSeason,
+  runCli,
+} from "./cli";
+
+const usage = `Usage: yarn rollups [options]
+
+Rebuilds the daily and weekly rollups of every tracked series from the raw
+cross faction history, e.g. after deploying them or editing rows by hand.
+
+Options:
+  --season <slug>    season slug, defaults to "latest"
+  --region <region>  ${regionOptionDescription}
+  --help             show this message`;
+
+const parseCliArgs = () => {
+  const { values } = parseArgs({
+    options: {
+      season: { type: "string", default: "latest" },
+      region: { type: "string", multiple: true },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  return values;
+};
+
+const main = async () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  const season = await resolveSeason(args.season);
+
+  if (season.crossFactionSupport !== "complete") {
+    throw new Error(`${season.name} has no rollups.`);
+  }
+
+  const regions = resolveRegions(season, args.region);
+  const trackedSeries = getTrackedSeries(season);
+
+  const failures = await processRegions(regions, async (region) => {
+    await Promise.all(
+      trackedSeries.map((series) => rebuildRollups(season, region, series))
+    );
+
+    console.info(`${region}: rebuilt ${trackedSeries.length} series`);
+  });
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+};
+
+void runCli(main);
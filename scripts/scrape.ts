@@ -0,0 +1,128 @@
+/* eslint-disable no-console */
+import { parseArgs } from "node:util";
+
+import { type Regions } from "@prisma/client";
+
+import {
+  parseRegionData,
+  type RegionUpdateResult,
+  updateRegion,
+} from "~/cron/updateRegion.server";
+import { createHttpClient, type HttpClient } from "~/cutoffSources/http.server";
+import { type CutoffSource } from "~/cutoffSources/types";
+import { type Season } from "~/seasons";
+
+import {
+  processRegions,
+  regionOptionDescription,
+  resolveRegions,
+  resolveSeason,
+  resolveSource,
+  runCli,
+  sourceOptionDescription,
+} from "./cli";
+
+const usage = `Usage: yarn scrape [options]
+
+Scrapes cutoffs with the same code path as /api/cron. Without --write, the
+parsed cutoffs are only printed.
+
+Options:
+  --season <slug>    season slug, defaults to "latest"
+  --region <region>  ${regionOptionDescription}
+  --source <kind>    ${sourceOptionDescription}
+  --write            persist datapoints like a cron run would
+  --help             show this message`;
+
+const parseCliArgs = () => {
+  const { values } = parseArgs({
+    options: {
+      season: { type: "string", default: "latest" },
+      region: { type: "string", multiple: true },
+      source: { type: "string" },
+      write: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  return values;
+};
+
+const dryRun = async (
+  source: CutoffSource,
+  region: Regions,
+  season: Season,
+  client: HttpClient
+) => {
+  const { regionData, pagesFetched } = await parseRegionData(
+    source,
+    region,
+    season,
+    client
+  );
+
+  console.info(`${region}: ${pagesFetched} pages fetched`);
+  console.table(
+    regionData.map(({ percentile, role, rank, score, population }) => ({
+      percentile,
+      role,
+      rank,
+      score,
+      population,
+    }))
+  );
+};
+
+const printUpdateResult = (region: Regions, result: RegionUpdateResult) => {
+  if (result.status === "skipped") {
+    console.info(`${region}: skipped, ${result.reason}`);
+    return;
+  }
+
+  console.info(
+    `${region}: wrote ${result.regionData.length} datapoints${
+      result.duplicates > 0 ? `, skipped ${result.duplicates} existing` : ""
+    }`
+  );
+  result.quarantined.forEach(({ percentile, role, reason }) => {
+    console.warn(`${region}: quarantined ${role} ${percentile}%: ${reason}`);
+  });
+};
+
+const main = async () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  const season = await resolveSeason(args.season);
+  const source = resolveSource(season, args.source);
+  const regions = resolveRegions(season, args.region);
+  const client = createHttpClient();
+
+  console.info(
+    `${args.write ? "Updating" : "Dry run for"} ${season.slug} (${
+      source.kind
+    }): ${regions.join(", ") || "no regions"}`
+  );
+
+  const failures = await processRegions(regions, async (region) => {
+    if (args.write) {
+      printUpdateResult(
+        region,
+        await updateRegion(season, region, source, client)
+      );
+      return;
+    }
+
+    await dryRun(source, region, season, client);
+  });
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+};
+
+void runCli(main);
@@ -0,0 +1,159 @@
+/* eslint-disable no-console */
+import { parseArgs } from "node:util";
+
+import {
+  defaultSyntheticOptions,
+  type SyntheticOptions,
+} from "~/synthetic/generate";
+import { seedSyntheticHistory } from "~/synthetic/seed.server";
+
+import {
+  processRegions,
+  regionOptionDescription,
+  resolveRegions,
+  resolveSeason,
+  runCli,
+} from "./cli";
+
+const usage = `Usage: yarn seed:synthetic [options]
+
+Fills History with generated hourly cutoffs for local development, replacing
+rows seeded before. Real rows are kept. Seasons have to be seeded first with
+\`yarn prisma:seed\`.
+
+Options:
+  --season <slug>             season slug, defaults to "latest"
+  --region <region>           ${regionOptionDescription}
+  --target <score>            title cutoff at the season end, defaults to ${defaultSyntheticOptions.target}
+  --growth <weeks>            weeks until about two thirds of the growth,
+                              defaults to ${defaultSyntheticOptions.growthWeeks}
+  --noise <points>            standard deviation of the hourly noise,
+                              defaults to ${defaultSyntheticOptions.noise}
+  --gaps <count>              outages of 4 to 12 hours, defaults to ${defaultSyntheticOptions.gaps}
+  --faction-split <points>    horde minus alliance cutoff, defaults to ${defaultSyntheticOptions.factionSplit}
+  --cross-faction-week <week> switch to cross faction rows in seasons with
+                              partial support, defaults to ${defaultSyntheticOptions.crossFactionWeek}
+  --until <date>              stop early, ISO 8601; defaults to the season end
+                              or now
+  --seed <number>             random seed, defaults to ${defaultSyntheticOptions.seed}
+  --help                      show this message`;
+
+const parseCliArgs = () => {
+  const { values } = parseArgs({
+    options: {
+      season: { type: "string", default: "latest" },
+      region: { type: "string", multiple: true },
+      target: { type: "string" },
+      growth: { type: "string" },
+      noise: { type: "string" },
+      gaps: { type: "string" },
+      "faction-split": { type: "string" },
+      "cross-faction-week": { type: "string" },
+      until: { type: "string" },
+      seed: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  return values;
+};
+
+const parseNumber = (
+  name: string,
+  value: string | undefined,
+  fallback: number,
+  isValid: (parsed: number) => boolean
+) => {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+
+  if (Number.isNaN(parsed) || !isValid(parsed)) {
+    throw new Error(`Invalid ${name} "${value}".`);
+  }
+
+  return parsed;
+};
+
+const parseUntil = (value: string | undefined) => {
+  if (value === undefined) {
+    return null;
+  }
+
+  const until = Date.parse(value);
+
+  if (Number.isNaN(until) || until <= 0) {
+    throw new Error(`Invalid until "${value}".`);
+  }
+
+  return until;
+};
+
+const isPositive = (value: number) => value > 0;
+const isNonNegative = (value: number) => value >= 0;
+const isCount = (value: number) => Number.isInteger(value) && value >= 0;
+
+const parseOptions = (
+  args: ReturnType<typeof parseCliArgs>
+): SyntheticOptions => {
+  const defaults = defaultSyntheticOptions;
+
+  return {
+    seed: parseNumber("seed", args.seed, defaults.seed, Number.isInteger),
+    target: parseNumber("target", args.target, defaults.target, isPositive),
+    growthWeeks: parseNumber(
+      "growth",
+      args.growth,
+      defaults.growthWeeks,
+      isPositive
+    ),
+    noise: parseNumber("noise", args.noise, defaults.noise, isNonNegative),
+    gaps: parseNumber("gaps", args.gaps, defaults.gaps, isCount),
+    factionSplit: parseNumber(
+      "faction split",
+      args["faction-split"],
+      defaults.factionSplit,
+      Number.isFinite
+    ),
+    crossFactionWeek: parseNumber(
+      "cross faction week",
+      args["cross-faction-week"],
+      defaults.crossFactionWeek,
+      isNonNegative
+    ),
+    until: parseUntil(args.until),
+  };
+};
+
+const main = async () => {
+  const args = parseCliArgs();
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  const options = parseOptions(args);
+  const season = await resolveSeason(args.season);
+  const regions = resolveRegions(season, args.region);
+
+  const failures = await processRegions(regions, async (region) => {
+    const { deleted, created, gaps } = await seedSyntheticHistory(
+      season,
+      region,
+      options
+    );
+
+    console.info(
+      `${region}: replaced ${deleted} with ${created} synthetic rows, ${gaps} gaps`
+    );
+  });
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+};
+
+void runCli(main);